@@ -0,0 +1,921 @@
+/**
+ * ContentAnalyzer - Static pre-check of a Slidev presentation
+ *
+ * Combines EnhancedMarkdownParser and TextPredictor to score each slide's
+ * complexity and predict likely overflow before (or without) rendering.
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import { basename, extname, join, relative, resolve } from 'path';
+import {
+  EnhancedMarkdownParser,
+  type CodeStep,
+  type ParsedPresentation,
+  type SlideContent,
+} from '../parsers/EnhancedMarkdownParser.js';
+import { SLIDE_FILES } from '../parsers/SlideMapper.js';
+import {
+  TextPredictor,
+  createDefaultCalibration,
+  type ElementType,
+} from '../calibration/TextPredictor.js';
+import { CalibrationCache } from '../calibration/CalibrationCache.js';
+import { TextMeasurer } from '../calibration/TextMeasurer.js';
+import { LayoutRegistry, isBuiltinLayout } from '../calibration/LayoutDefinitions.js';
+import type { CalibrationTarget } from '../calibration/StyleCalibrator.js';
+import type { SlotMarker } from '../calibration/LayoutProbe.js';
+import type {
+  AnalysisModeInfo,
+  ComplexityWeights,
+  ContentAnalysisConfig,
+  ContentAnalysisResult,
+  ContentAnalysisThresholds,
+  ContentNode,
+  CustomLayoutDefinition,
+  PredictedIssue,
+  PresentationMetrics,
+  SlideAnalysis,
+  SlotInfo,
+  StyleCalibration,
+} from '../types/index.js';
+
+/**
+ * Default thresholds not covered by TextPredictor
+ */
+const DEFAULT_THRESHOLDS = {
+  paragraphMaxChars: 300,
+  codeMaxLines: 30,
+  tableMaxCols: 6,
+  tableMaxRows: 10,
+  nestingDepthLimit: 3,
+};
+
+/**
+ * Default complexity weights (normalized when summed)
+ */
+const DEFAULT_WEIGHTS: Required<ComplexityWeights> = {
+  textDensity: 0.3,
+  codeDensity: 0.4,
+  visualElements: 0.2,
+  nestingDepth: 0.1,
+};
+
+/**
+ * Default complexity score at which a slide is treated as high risk
+ */
+export const DEFAULT_COMPLEXITY_THRESHOLD = 0.7;
+
+/**
+ * Number of images/tables that make a slide visually saturated
+ */
+const MAX_VISUAL_ELEMENTS = 3;
+
+/**
+ * Capabilities when reading a project directory
+ */
+const PROJECT_MODE: AnalysisModeInfo = {
+  type: 'project-directory',
+  capabilities: {
+    markdownParsing: true,
+    assetSizeDetection: false,
+    configFileAccess: false,
+    themeAnalysis: false,
+    accuracyLevel: 'basic',
+  },
+};
+
+/**
+ * Capabilities when the theme's styles have been measured in the browser
+ */
+const CALIBRATED_MODE: AnalysisModeInfo = {
+  type: 'project-directory',
+  capabilities: {
+    ...PROJECT_MODE.capabilities,
+    themeAnalysis: true,
+    accuracyLevel: 'detailed',
+  },
+};
+
+/**
+ * Maximum length of the text snippet used to find a slot in the rendered slide
+ */
+const SLOT_MARKER_LENGTH = 40;
+
+/**
+ * A layout used in the deck without a slot description
+ */
+export interface UndescribedLayout {
+  layout: string;
+  /** First slide (1-based) using the layout */
+  slide: number;
+  markers: SlotMarker[];
+}
+
+/**
+ * Per-slide density scores (0-1) used for complexity
+ */
+interface DensityScores {
+  textDensity: number;
+  codeDensity: number;
+  visualElements: number;
+  nestingDepth: number;
+}
+
+/**
+ * Get the directories a theme's layouts are installed in
+ *
+ * Themes are given by short name ("seriph"), package name or local path.
+ */
+function getThemeLayoutDirs(projectPath: string, theme: string): string[] {
+  if (theme === 'none') {
+    return [];
+  }
+  if (theme.startsWith('.') || theme.startsWith('/')) {
+    return [join(resolve(projectPath, theme), 'layouts')];
+  }
+
+  const packages =
+    theme.startsWith('@') || theme.startsWith('slidev-theme-')
+      ? [theme]
+      : [`@slidev/theme-${theme}`, `slidev-theme-${theme}`];
+  return packages.map(pkg => join(projectPath, 'node_modules', pkg, 'layouts'));
+}
+
+/**
+ * Format slide numbers for a warning ("slide 3", "slides 3, 5")
+ */
+function formatSlides(slides: number[]): string {
+  return `${slides.length === 1 ? 'slide' : 'slides'} ${slides.join(', ')}`;
+}
+
+/**
+ * ContentAnalyzer class
+ */
+export class ContentAnalyzer {
+  private config: ContentAnalysisConfig;
+  private parser: EnhancedMarkdownParser;
+  private measurer: TextMeasurer;
+  /** Custom layouts of the deck being analyzed */
+  private layouts = new LayoutRegistry();
+  /** Layouts found in the project and theme, with the file that defines them */
+  private layoutFiles = new Map<string, string>();
+  /** Layout slots measured on the rendered deck */
+  private measuredLayouts: Record<string, CustomLayoutDefinition> = {};
+
+  constructor(config: ContentAnalysisConfig = {}) {
+    this.config = config;
+    this.parser = new EnhancedMarkdownParser(this.layouts);
+    this.measurer = new TextMeasurer();
+  }
+
+  /**
+   * Analyze the Markdown entry file of a Slidev project
+   */
+  async analyzeProject(projectPath: string): Promise<ContentAnalysisResult> {
+    const { markdown } = await this.readProjectMarkdown(projectPath);
+    const calibration = await this.loadCachedCalibration(projectPath, markdown);
+    await this.loadFonts(projectPath);
+    await this.loadLayouts(projectPath, markdown);
+    return this.analyzeMarkdown(markdown, calibration);
+  }
+
+  /**
+   * Find custom layouts in the project's `layouts` directory and the theme
+   * package, and load layout slots measured by an earlier browser run
+   *
+   * Layouts found here without a slot description are measured as the
+   * default layout with a warning.
+   */
+  async loadLayouts(projectPath: string, markdown: string): Promise<void> {
+    const { theme, slideDimensions } = this.getCalibrationTarget(markdown);
+    const dirs = [join(projectPath, 'layouts'), ...getThemeLayoutDirs(projectPath, theme)];
+
+    this.layoutFiles.clear();
+    for (const dir of dirs) {
+      try {
+        for (const file of await readdir(dir)) {
+          const name = basename(file, extname(file));
+          // Project layouts override theme layouts
+          if (extname(file) === '.vue' && !this.layoutFiles.has(name)) {
+            this.layoutFiles.set(name, relative(projectPath, join(dir, file)));
+          }
+        }
+      } catch {
+        // Directory does not exist
+        continue;
+      }
+    }
+
+    if (this.config.cacheEnabled !== false) {
+      const cached = await new CalibrationCache(projectPath).loadLayouts(
+        theme,
+        slideDimensions.canvasWidth,
+        slideDimensions.canvasHeight
+      );
+      this.measuredLayouts = { ...cached };
+    }
+  }
+
+  /**
+   * Use layout slots measured on the rendered deck
+   *
+   * Slot descriptions from the config file and frontmatter take priority.
+   */
+  addMeasuredLayouts(layouts: Record<string, CustomLayoutDefinition>): void {
+    this.measuredLayouts = { ...this.measuredLayouts, ...layouts };
+  }
+
+  /**
+   * Get the layouts used in the deck that are neither built in nor described,
+   * with text snippets to locate each slot on the rendered slide
+   */
+  getUndescribedLayouts(markdown: string): UndescribedLayout[] {
+    this.registerLayouts(this.parser.extractGlobalConfig(markdown).overflowChecker?.layouts);
+    const presentation = this.parser.parsePresentation(markdown);
+    const layouts = new Map<string, UndescribedLayout>();
+
+    for (const slide of presentation.slides) {
+      if (this.layouts.isKnown(slide.layout) || layouts.has(slide.layout)) continue;
+
+      const markers = slide.slots
+        .map(slot => ({ name: slot.name, text: this.getSlotMarker(slot.contentNodes) }))
+        .filter((marker): marker is SlotMarker => marker.text !== undefined);
+      layouts.set(slide.layout, { layout: slide.layout, slide: slide.index + 1, markers });
+    }
+
+    return [...layouts.values()];
+  }
+
+  /**
+   * Get a plain text snippet of the first text node in a slot
+   */
+  private getSlotMarker(nodes: ContentNode[]): string | undefined {
+    for (const node of nodes) {
+      const text = (node.text ?? '')
+        .replace(/\]\([^)]*\)/g, '')
+        .replace(/[*_`~[\]]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (text) {
+        return text.substring(0, SLOT_MARKER_LENGTH).trim();
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Register custom layouts: measured slots first, then frontmatter
+   * descriptions, with config file descriptions taking priority
+   *
+   * @returns Descriptions by layout name
+   */
+  private registerLayouts(
+    frontmatterLayouts: Record<string, CustomLayoutDefinition> = {}
+  ): Record<string, CustomLayoutDefinition> {
+    const descriptions = {
+      ...this.measuredLayouts,
+      ...frontmatterLayouts,
+      ...this.config.layouts,
+    };
+
+    this.layouts.clear();
+    for (const [name, description] of Object.entries(descriptions)) {
+      this.layouts.register(name, description);
+    }
+    return descriptions;
+  }
+
+  /**
+   * Warn about layouts measured as the default layout
+   */
+  private getLayoutWarnings(
+    presentation: ParsedPresentation,
+    descriptions: Record<string, CustomLayoutDefinition>
+  ): string[] {
+    const warnings: string[] = [];
+
+    for (const [name, description] of Object.entries(descriptions)) {
+      if (description.extends && !isBuiltinLayout(description.extends)) {
+        warnings.push(
+          `Layout "${name}" extends unknown built-in layout "${description.extends}"; using the default layout`
+        );
+      }
+    }
+
+    const unknown = new Map<string, number[]>();
+    for (const slide of presentation.slides) {
+      if (this.layouts.isKnown(slide.layout)) continue;
+      unknown.set(slide.layout, [...(unknown.get(slide.layout) ?? []), slide.index + 1]);
+    }
+
+    for (const [layout, slides] of unknown) {
+      const file = this.layoutFiles.get(layout);
+      warnings.push(
+        file
+          ? `Layout "${layout}" (${formatSlides(slides)}) from ${file} has no slot description; measuring it as the default layout`
+          : `Unknown layout "${layout}" (${formatSlides(slides)}); measuring it as the default layout`
+      );
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Find font files for text measurement
+   *
+   * Looks in the configured font directories, the project's `fonts` and
+   * `public` directories and (unless disabled) the system font directories.
+   * Without fonts, text widths are estimated.
+   *
+   * @param systemFonts Whether to search the system font directories when the config does not say
+   */
+  async loadFonts(projectPath?: string, systemFonts: boolean = true): Promise<void> {
+    const base = projectPath ?? process.cwd();
+    const dirs = (this.config.fontDirs ?? []).map(dir => resolve(base, dir));
+    if (projectPath) {
+      dirs.push(join(projectPath, 'fonts'), join(projectPath, 'public'));
+    }
+
+    this.measurer = await TextMeasurer.create(dirs, this.config.systemFonts ?? systemFonts);
+  }
+
+  /**
+   * Load the calibration measured for the presentation's theme and canvas size
+   *
+   * @returns undefined if caching is disabled or nothing has been measured yet
+   */
+  async loadCachedCalibration(
+    projectPath: string,
+    markdown: string
+  ): Promise<StyleCalibration | undefined> {
+    if (this.config.cacheEnabled === false) {
+      return undefined;
+    }
+
+    const { theme, slideDimensions } = this.getCalibrationTarget(markdown);
+    const cache = new CalibrationCache(projectPath);
+    const calibration = await cache.load(
+      theme,
+      slideDimensions.canvasWidth,
+      slideDimensions.canvasHeight
+    );
+    return calibration ?? undefined;
+  }
+
+  /**
+   * Get the theme, canvas size and slide to measure for calibration
+   *
+   * The first slide with the default layout is preferred, since cover and
+   * center layouts style headings differently. Slidev renders the first slide
+   * with the cover layout unless one is set, so it is never picked.
+   */
+  getCalibrationTarget(markdown: string): CalibrationTarget {
+    const presentation = this.parser.parsePresentation(markdown);
+    const { canvasWidth = 980, aspectRatio = '16/9', theme = 'default' } = presentation.globalConfig;
+    const defaultSlide = presentation.slides.find(
+      slide => slide.index > 0 && slide.layout === 'default'
+    );
+
+    return {
+      theme,
+      slide: defaultSlide ? defaultSlide.index + 1 : 1,
+      slideDimensions: {
+        canvasWidth,
+        canvasHeight: this.parser.calculateCanvasHeight(canvasWidth, aspectRatio),
+        aspectRatio,
+      },
+    };
+  }
+
+  /**
+   * Read the Markdown entry file of a Slidev project
+   */
+  async readProjectMarkdown(projectPath: string): Promise<{ file: string; markdown: string }> {
+    for (const file of SLIDE_FILES) {
+      try {
+        const markdown = await readFile(join(projectPath, file), 'utf-8');
+        return { file, markdown };
+      } catch {
+        // If file not found, try next one
+        continue;
+      }
+    }
+
+    throw new Error(
+      `No Slidev markdown file found in ${projectPath}. Looked for: ${SLIDE_FILES.join(', ')}`
+    );
+  }
+
+  /**
+   * Analyze Markdown source
+   *
+   * @param measured Calibration measured on the rendered deck (defaults are used if omitted)
+   */
+  analyzeMarkdown(markdown: string, measured?: StyleCalibration): ContentAnalysisResult {
+    const startTime = Date.now();
+    // Layouts are registered before parsing, which sizes each slide's content area
+    const descriptions = this.registerLayouts(
+      this.parser.extractGlobalConfig(markdown).overflowChecker?.layouts
+    );
+    const presentation = this.parser.parsePresentation(markdown);
+    const calibration = measured ?? this.createCalibration(presentation);
+
+    // Frontmatter thresholds apply first, config file thresholds take priority
+    const thresholds: ContentAnalysisThresholds = {
+      ...presentation.globalConfig.overflowChecker?.thresholds,
+      ...this.config.thresholds,
+    };
+    const predictor = new TextPredictor(calibration, thresholds, this.measurer, this.layouts);
+
+    const skipped = new Set(this.config.skipAnalysisForSlides ?? []);
+    const distribution = { textHeavy: 0, codeHeavy: 0, balanced: 0 };
+
+    const slideAnalysis = presentation.slides.map(slide => {
+      if (skipped.has(slide.index + 1)) {
+        return this.createSkippedAnalysis(slide);
+      }
+
+      const densities = this.calculateDensities(slide, predictor, thresholds);
+      distribution[this.classifyContent(densities)]++;
+      return this.analyzeSlide(slide, predictor, thresholds, densities);
+    });
+
+    const predictions = slideAnalysis.flatMap(slide => slide.predictedIssues);
+    const warnings = [
+      ...presentation.warnings,
+      ...this.getLayoutWarnings(presentation, descriptions),
+    ];
+
+    return {
+      enabled: true,
+      analysisTime: Date.now() - startTime,
+      mode: measured ? CALIBRATED_MODE : PROJECT_MODE,
+      calibration,
+      presentationMetrics: this.calculatePresentationMetrics(slideAnalysis, distribution),
+      predictions: {
+        totalPredicted: predictions.length,
+        totalActual: 0,
+        accuracy: {
+          predicted: predictions.length,
+          confirmed: 0,
+          falsePositives: 0,
+          falseNegatives: 0,
+          precision: 0,
+          recall: 0,
+        },
+        predictions,
+      },
+      slideAnalysis,
+      warnings,
+    };
+  }
+
+  /**
+   * Create calibration from the presentation's canvas settings
+   */
+  private createCalibration(presentation: ParsedPresentation): StyleCalibration {
+    const { canvasWidth = 980, aspectRatio = '16/9', theme = 'default' } = presentation.globalConfig;
+    const canvasHeight = this.parser.calculateCanvasHeight(canvasWidth, aspectRatio);
+
+    return {
+      ...createDefaultCalibration(canvasWidth, canvasHeight),
+      themeUsed: theme,
+    };
+  }
+
+  /**
+   * Analysis result for a slide excluded by configuration
+   */
+  private createSkippedAnalysis(slide: SlideContent): SlideAnalysis {
+    return {
+      slideIndex: slide.index,
+      layout: slide.layout,
+      complexity: 0,
+      riskLevel: 'low',
+      contentArea: slide.contentArea,
+      metrics: {
+        characterCount: slide.metrics.totalCharacters,
+        wordCount: slide.metrics.wordCount,
+        elementCounts: slide.metrics.elementCounts,
+      },
+      predictedIssues: [],
+      recommendations: [],
+      skipped: true,
+      skipReason: 'Listed in skipAnalysisForSlides',
+    };
+  }
+
+  /**
+   * Analyze a single slide
+   */
+  private analyzeSlide(
+    slide: SlideContent,
+    predictor: TextPredictor,
+    thresholds: ContentAnalysisThresholds,
+    densities: DensityScores
+  ): SlideAnalysis {
+    const predictedIssues = [
+      ...slide.slots.flatMap(slot =>
+        slot.contentNodes.flatMap(node =>
+          this.predictNodeIssues(node, slide.layout, slot.name, predictor, thresholds)
+        )
+      ),
+      ...this.predictVerticalOverflow(slide, predictor),
+    ];
+
+    const complexity = this.calculateComplexity(densities, thresholds);
+    const threshold = this.config.complexityThreshold ?? DEFAULT_COMPLEXITY_THRESHOLD;
+
+    let riskLevel: SlideAnalysis['riskLevel'] = 'low';
+    if (complexity >= threshold || predictedIssues.some(issue => issue.riskLevel === 'high')) {
+      riskLevel = 'high';
+    } else if (complexity >= threshold / 2 || predictedIssues.length > 0) {
+      riskLevel = 'medium';
+    }
+
+    const recommendations = [...new Set(predictedIssues.map(issue => issue.recommendation))];
+    if (complexity >= threshold) {
+      recommendations.push(
+        `Slide complexity ${complexity.toFixed(2)} exceeds ${threshold}; consider splitting this slide`
+      );
+    }
+
+    return {
+      slideIndex: slide.index,
+      layout: slide.layout,
+      complexity,
+      riskLevel,
+      contentArea: slide.contentArea,
+      metrics: {
+        characterCount: slide.metrics.totalCharacters,
+        wordCount: slide.metrics.wordCount,
+        elementCounts: slide.metrics.elementCounts,
+      },
+      predictedIssues,
+      recommendations,
+      skipped: false,
+    };
+  }
+
+  /**
+   * Predict issues for a single content node
+   */
+  private predictNodeIssues(
+    node: ContentNode,
+    layout: string,
+    slot: string,
+    predictor: TextPredictor,
+    thresholds: ContentAnalysisThresholds
+  ): PredictedIssue[] {
+    const issues: PredictedIssue[] = [];
+    const predict = (issue: Omit<PredictedIssue, 'slideIndex' | 'lineRange' | 'confirmed'>) => {
+      issues.push({
+        ...issue,
+        slideIndex: node.slideIndex,
+        lineRange: { start: node.lineStart, end: node.lineEnd },
+        confirmed: false,
+      });
+    };
+
+    switch (node.type) {
+      case 'heading': {
+        const level = node.level ?? 1;
+        const text = node.text ?? '';
+        const elementType = `h${Math.min(level, 4)}` as ElementType;
+        const measurement = predictor.measureTextForLayout(text, elementType, layout, slot);
+        const tooLong = predictor.predictHeadingOverflow(text, level);
+
+        if (measurement.willOverflow) {
+          // Headings wrap: too wide only for an unbreakable word, otherwise too tall
+          const tooWide = measurement.measuredWidth > measurement.availableWidth;
+          predict({
+            type: 'text-overflow',
+            element: `H${level} heading`,
+            riskLevel: tooLong ? 'high' : 'medium',
+            recommendation: `Shorten H${level} heading or split it into title and subtitle`,
+            confidence: measurement.confidence,
+            measuredValue: Math.round(
+              tooWide ? measurement.measuredWidth : measurement.measuredHeight
+            ),
+            thresholdValue: Math.round(
+              tooWide ? measurement.availableWidth : measurement.availableHeight
+            ),
+          });
+        } else if (tooLong) {
+          predict({
+            type: 'text-overflow',
+            element: `H${level} heading`,
+            riskLevel: 'low',
+            recommendation: `Shorten H${level} heading`,
+            confidence: 'low',
+            measuredValue: text.length,
+          });
+        }
+        break;
+      }
+
+      case 'code-block': {
+        // Magic-move blocks show one inner fence at a time: check the longest one
+        const stepLines = ((node.metadata.steps as CodeStep[] | undefined) ?? []).map(step =>
+          step.code.split('\n')
+        );
+        const codeLines = node.metadata.magicMove
+          ? stepLines.reduce((a, b) => (b.length > a.length ? b : a), [])
+          : node.content.split('\n').slice(1, -1);
+        const lineCount = (node.metadata.lineCount as number) ?? codeLines.length;
+        const maxLines = thresholds.codeMaxLines ?? DEFAULT_THRESHOLDS.codeMaxLines;
+
+        if (predictor.predictCodeBlockOverflow(codeLines.join('\n'))) {
+          predict({
+            type: 'element-overflow',
+            element: 'Code block',
+            riskLevel: 'high',
+            recommendation: `Reduce code block to ${maxLines} lines or fewer, or split it across slides`,
+            confidence: 'medium',
+            measuredValue: lineCount,
+            thresholdValue: maxLines,
+          });
+        }
+
+        const longest = (node.metadata.magicMove ? stepLines.flat() : codeLines).reduce(
+          (a, b) => (b.length > a.length ? b : a),
+          ''
+        );
+        const measurement = predictor.measureTextForLayout(longest, 'code', layout, slot);
+        if (measurement.willOverflow) {
+          predict({
+            type: 'scrollbar',
+            element: 'Code block',
+            riskLevel: 'medium',
+            recommendation: 'Wrap long code lines or reduce the code font size',
+            confidence: measurement.confidence,
+            measuredValue: Math.round(measurement.measuredWidth),
+            thresholdValue: Math.round(measurement.availableWidth),
+          });
+        }
+        break;
+      }
+
+      case 'paragraph': {
+        const text = node.text ?? '';
+        const maxChars = thresholds.paragraphMaxChars ?? DEFAULT_THRESHOLDS.paragraphMaxChars;
+
+        if (text.length > maxChars) {
+          predict({
+            type: 'element-overflow',
+            element: 'Paragraph',
+            riskLevel: text.length > maxChars * 2 ? 'high' : 'medium',
+            recommendation: `Shorten paragraph to ${maxChars} characters or fewer`,
+            confidence: 'low',
+            measuredValue: text.length,
+            thresholdValue: maxChars,
+          });
+        }
+
+        // Unbreakable tokens (URLs, long identifiers) do not wrap
+        this.predictUnbreakableText(text, 'paragraph', 'Paragraph', layout, slot, predictor, predict);
+        break;
+      }
+
+      case 'list': {
+        const depth = (node.metadata.maxDepth as number) ?? 0;
+        const depthLimit = thresholds.nestingDepthLimit ?? DEFAULT_THRESHOLDS.nestingDepthLimit;
+
+        if (depth >= depthLimit) {
+          predict({
+            type: 'element-overflow',
+            element: 'List',
+            riskLevel: 'medium',
+            recommendation: `Flatten list nesting to fewer than ${depthLimit} levels`,
+            confidence: 'low',
+            measuredValue: depth,
+            thresholdValue: depthLimit,
+          });
+        }
+
+        const text = node.content.replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '');
+        this.predictUnbreakableText(text, 'listItem', 'List item', layout, slot, predictor, predict);
+        break;
+      }
+
+      case 'table': {
+        const columns = (node.metadata.columns as number) ?? 0;
+        const rows = (node.metadata.rows as number) ?? 0;
+        const maxCols = thresholds.tableMaxCols ?? DEFAULT_THRESHOLDS.tableMaxCols;
+        const maxRows = thresholds.tableMaxRows ?? DEFAULT_THRESHOLDS.tableMaxRows;
+
+        if (columns > maxCols) {
+          predict({
+            type: 'element-overflow',
+            element: 'Table',
+            riskLevel: 'high',
+            recommendation: `Reduce table to ${maxCols} columns or fewer`,
+            confidence: 'medium',
+            measuredValue: columns,
+            thresholdValue: maxCols,
+          });
+        }
+
+        if (rows > maxRows) {
+          predict({
+            type: 'element-overflow',
+            element: 'Table',
+            riskLevel: 'high',
+            recommendation: `Reduce table to ${maxRows} rows or fewer, or split it across slides`,
+            confidence: 'medium',
+            measuredValue: rows,
+            thresholdValue: maxRows,
+          });
+        }
+        break;
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Predict vertical overflow by stacking block heights in each layout slot
+   *
+   * Each Markdown slot is measured against its own slot's width and height.
+   * Content in slots the layout does not render is ignored.
+   */
+  private predictVerticalOverflow(slide: SlideContent, predictor: TextPredictor): PredictedIssue[] {
+    const { canvasWidth, canvasHeight } = predictor.getCalibration().slideDimensions;
+    const layoutArea = this.layouts.getContentArea(slide.layout, canvasWidth, canvasHeight);
+
+    // Several Markdown slots can render into the same layout slot
+    const slots = new Map<string, { slot: SlotInfo; nodes: ContentNode[] }>();
+    for (const { name, contentNodes } of slide.slots) {
+      const slot = this.layouts.getSlot(slide.layout, canvasWidth, canvasHeight, name);
+      if (!slot) continue;
+      const entry = slots.get(slot.name) ?? { slot, nodes: [] };
+      entry.nodes.push(...contentNodes);
+      slots.set(slot.name, entry);
+    }
+
+    const issues: PredictedIssue[] = [];
+    for (const { slot, nodes } of slots.values()) {
+      const blocks = predictor.stackBlocks(nodes, slot.width);
+      const height = blocks[blocks.length - 1]?.bottom ?? 0;
+      if (height <= slot.height) continue;
+
+      const overflow = Math.round(height - slot.height);
+      const overflowing = blocks.filter(block => block.bottom > slot.height);
+      const hasImages = blocks.some(block => block.node.type === 'image');
+      const multiSlot = layoutArea.slots.length > 1;
+
+      issues.push({
+        type: 'element-overflow',
+        element: multiSlot ? `Slide content (${slot.name} slot)` : 'Slide content',
+        slideIndex: slide.index,
+        riskLevel: overflow >= slot.height * 0.1 ? 'high' : 'medium',
+        lineRange: {
+          start: overflowing[0].node.lineStart,
+          end: overflowing[overflowing.length - 1].node.lineEnd,
+        },
+        recommendation: multiSlot
+          ? `Content in the ${slot.name} slot is about ${overflow}px taller than the slot; move or remove content`
+          : `Content is about ${overflow}px taller than the slide; remove content or split the slide`,
+        confirmed: false,
+        // Image heights are guessed
+        confidence: hasImages ? 'low' : 'medium',
+        measuredValue: Math.round(height),
+        thresholdValue: Math.round(slot.height),
+        overflowY: overflow,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Predict horizontal overflow caused by a word that cannot wrap
+   */
+  private predictUnbreakableText(
+    text: string,
+    elementType: ElementType,
+    element: string,
+    layout: string,
+    slot: string,
+    predictor: TextPredictor,
+    predict: (issue: Omit<PredictedIssue, 'slideIndex' | 'lineRange' | 'confirmed'>) => void
+  ): void {
+    const longestWord = text.split(/\s+/).reduce((a, b) => (b.length > a.length ? b : a), '');
+    if (!longestWord) return;
+
+    const measurement = predictor.measureTextForLayout(longestWord, elementType, layout, slot);
+    if (measurement.willOverflow) {
+      predict({
+        type: 'text-overflow',
+        element,
+        riskLevel: 'medium',
+        recommendation: 'Break up long URLs or identifiers that cannot wrap',
+        confidence: measurement.confidence,
+        measuredValue: Math.round(measurement.measuredWidth),
+        thresholdValue: Math.round(measurement.availableWidth),
+      });
+    }
+  }
+
+  /**
+   * Calculate density scores for a slide
+   */
+  private calculateDensities(
+    slide: SlideContent,
+    predictor: TextPredictor,
+    thresholds: ContentAnalysisThresholds
+  ): DensityScores {
+    const calibration = predictor.getCalibration();
+    const fontSize = calibration.actualFontSizes.paragraph;
+    const lineHeight = calibration.actualLineHeights.paragraph;
+
+    // Characters that fit in the content area at paragraph size
+    const charsPerLine = slide.contentArea.width / predictor.estimateTextWidth('a', fontSize);
+    const linesPerSlide = slide.contentArea.height / (fontSize * lineHeight);
+    const capacity = Math.max(1, charsPerLine * linesPerSlide);
+
+    const textChars = slide.contentNodes
+      .filter(node => node.type !== 'code-block' && node.type !== 'table')
+      .reduce((sum, node) => sum + (node.charCount ?? node.text?.length ?? node.content.length), 0);
+
+    const codeLines = slide.contentNodes
+      .filter(node => node.type === 'code-block')
+      .reduce((sum, node) => sum + ((node.metadata.lineCount as number) ?? 0), 0);
+
+    const { images, tables } = slide.metrics.elementCounts;
+
+    const maxDepth = slide.contentNodes
+      .filter(node => node.type === 'list')
+      .reduce((max, node) => Math.max(max, (node.metadata.maxDepth as number) ?? 0), 0);
+
+    const codeMaxLines = thresholds.codeMaxLines ?? DEFAULT_THRESHOLDS.codeMaxLines;
+    const depthLimit = thresholds.nestingDepthLimit ?? DEFAULT_THRESHOLDS.nestingDepthLimit;
+
+    return {
+      textDensity: Math.min(1, textChars / capacity),
+      codeDensity: Math.min(1, codeLines / codeMaxLines),
+      visualElements: Math.min(1, (images + tables) / MAX_VISUAL_ELEMENTS),
+      nestingDepth: Math.min(1, maxDepth / depthLimit),
+    };
+  }
+
+  /**
+   * Calculate complexity score (0-1) as a weighted average of densities
+   */
+  private calculateComplexity(densities: DensityScores, thresholds: ContentAnalysisThresholds): number {
+    const weights = { ...DEFAULT_WEIGHTS, ...thresholds.complexityWeights };
+
+    const totalWeight =
+      weights.textDensity + weights.codeDensity + weights.visualElements + weights.nestingDepth;
+    if (totalWeight <= 0) return 0;
+
+    const score =
+      densities.textDensity * weights.textDensity +
+      densities.codeDensity * weights.codeDensity +
+      densities.visualElements * weights.visualElements +
+      densities.nestingDepth * weights.nestingDepth;
+
+    return Math.round((score / totalWeight) * 100) / 100;
+  }
+
+  /**
+   * Classify a slide by its dominant kind of content
+   */
+  private classifyContent(densities: DensityScores): keyof PresentationMetrics['contentDistribution'] {
+    if (densities.codeDensity >= 0.5 && densities.codeDensity > densities.textDensity) {
+      return 'codeHeavy';
+    }
+    if (densities.textDensity >= 0.5 && densities.textDensity > densities.codeDensity) {
+      return 'textHeavy';
+    }
+    return 'balanced';
+  }
+
+  /**
+   * Calculate presentation-wide metrics
+   */
+  private calculatePresentationMetrics(
+    slideAnalysis: SlideAnalysis[],
+    contentDistribution: PresentationMetrics['contentDistribution']
+  ): PresentationMetrics {
+    const analyzed = slideAnalysis.filter(slide => !slide.skipped);
+
+    const mostComplex = analyzed.reduce<SlideAnalysis | undefined>(
+      (max, slide) => (!max || slide.complexity > max.complexity ? slide : max),
+      undefined
+    );
+    const totalComplexity = analyzed.reduce((sum, slide) => sum + slide.complexity, 0);
+
+    return {
+      totalSlides: slideAnalysis.length,
+      averageComplexity:
+        analyzed.length > 0 ? Math.round((totalComplexity / analyzed.length) * 100) / 100 : 0,
+      highRiskSlideCount: analyzed.filter(slide => slide.riskLevel === 'high').length,
+      mediumRiskSlideCount: analyzed.filter(slide => slide.riskLevel === 'medium').length,
+      lowRiskSlideCount: analyzed.filter(slide => slide.riskLevel === 'low').length,
+      mostComplexSlide: mostComplex ? mostComplex.slideIndex + 1 : 0,
+      contentDistribution,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * PredictedIssueConverter - Turns static predictions into regular issues
+ *
+ * Used by static-only mode so that predictions flow through the same
+ * CheckResult and reporters as issues measured in the browser.
+ */
+
+import type {
+  ContentAnalysisResult,
+  ElementInfo,
+  Issue,
+  PredictedIssue,
+  SlideAnalysis,
+  SlideResult,
+} from '../types/index.js';
+
+/**
+ * HTML tag rendered for each predicted element label
+ */
+const ELEMENT_TAGS: Record<string, string> = {
+  'Slide content': 'div',
+  'Code block': 'pre',
+  Paragraph: 'p',
+  List: 'ul',
+  'List item': 'li',
+  Table: 'table',
+};
+
+/**
+ * Get the rendered tag for a predicted element label (e.g. "H2 heading" -> "h2")
+ */
+function getTag(element: string): string {
+  const heading = element.match(/^H(\d) heading$/);
+  if (heading) return `h${heading[1]}`;
+  return ELEMENT_TAGS[element] ?? 'div';
+}
+
+/**
+ * Convert a prediction to an issue
+ */
+function toIssue(
+  prediction: PredictedIssue,
+  slide: SlideAnalysis,
+  sourceFile: string,
+  lines: string[]
+): Issue {
+  const tag = getTag(prediction.element);
+  const content = lines.slice(prediction.lineRange.start - 1, prediction.lineRange.end).join('\n');
+  const text = content
+    .split('\n')[0]
+    .replace(/^\s*(?:#{1,6}|[-*+]|\d+\.|>)\s+/, '')
+    .trim();
+
+  const element: ElementInfo = {
+    tag,
+    selector: tag,
+    text: text && !text.startsWith('```') ? text.substring(0, 100) : undefined,
+  };
+
+  const base = {
+    element,
+    source: {
+      file: sourceFile,
+      line: prediction.lineRange.start,
+      lineEnd: prediction.lineRange.end,
+      content,
+    },
+    predicted: true,
+    prediction: {
+      riskLevel: prediction.riskLevel,
+      confidence: prediction.confidence,
+      recommendation: prediction.recommendation,
+      measuredValue: prediction.measuredValue,
+      thresholdValue: prediction.thresholdValue,
+    },
+  };
+
+  const measured = prediction.measuredValue ?? 0;
+  const threshold = prediction.thresholdValue ?? 0;
+  const overflow = Math.max(0, measured - threshold);
+
+  switch (prediction.type) {
+    case 'text-overflow':
+      return {
+        ...base,
+        type: 'text-overflow',
+        details: {
+          containerWidth: threshold,
+          containerHeight: 0,
+          contentWidth: measured,
+          contentHeight: 0,
+          overflowX: overflow,
+          overflowY: 0,
+        },
+      };
+    case 'scrollbar':
+      return {
+        ...base,
+        type: 'scrollbar',
+        details: {
+          scrollbarType: 'horizontal',
+          containerWidth: threshold,
+          contentWidth: measured,
+          overflow,
+        },
+      };
+    case 'element-overflow': {
+      // Only vertical overflow is known in pixels; other measured values are
+      // counts (lines, characters, columns)
+      const bottom = prediction.overflowY ?? 0;
+      const slideBounds = {
+        left: 0,
+        top: 0,
+        right: slide.contentArea.width,
+        bottom: slide.contentArea.height,
+      };
+      return {
+        ...base,
+        type: 'element-overflow',
+        details: {
+          slideBounds,
+          elementBounds: { ...slideBounds, bottom: slideBounds.bottom + bottom },
+          overflow: { left: 0, top: 0, right: 0, bottom },
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Convert the predictions of an analysis into slide results
+ *
+ * @param pages Slide numbers to include
+ */
+export function predictionsToSlideResults(
+  analysis: ContentAnalysisResult,
+  sourceFile: string,
+  markdown: string,
+  pages: number[]
+): SlideResult[] {
+  const lines = markdown.split('\n');
+  const included = new Set(pages);
+
+  return analysis.slideAnalysis
+    .filter(slide => included.has(slide.slideIndex + 1) && slide.predictedIssues.length > 0)
+    .map(slide => {
+      const issues = slide.predictedIssues.map(prediction =>
+        toIssue(prediction, slide, sourceFile, lines)
+      );
+      return {
+        page: slide.slideIndex + 1,
+        issueCount: issues.length,
+        issues,
+      };
+    });
+}
@@ -0,0 +1,99 @@
+/**
+ * PredictionMatcher - Compares static predictions with issues found in the browser
+ *
+ * A prediction is confirmed when an actual overflow issue on the same slide
+ * maps back to a source line range that overlaps the prediction's line range.
+ * Other issue types (tiny text, contrast, assets, ...) are not predicted, so
+ * they neither confirm predictions nor count as missed.
+ */
+
+import type {
+  ContentAnalysisResult,
+  Issue,
+  PredictedIssue,
+  PredictionAccuracy,
+  SlideResult,
+} from '../types/index.js';
+
+/**
+ * Issue types the static analysis predicts
+ */
+const OVERFLOW_TYPES = new Set<Issue['type']>([
+  'text-overflow',
+  'element-overflow',
+  'scrollbar',
+  'clipped-content',
+  'truncated-text',
+]);
+
+/**
+ * Check if an actual issue maps to the lines of a prediction
+ */
+function overlaps(prediction: PredictedIssue, issue: Issue): boolean {
+  if (!issue.source) return false;
+  return (
+    issue.source.line <= prediction.lineRange.end &&
+    issue.source.lineEnd >= prediction.lineRange.start
+  );
+}
+
+/**
+ * Round ratio to two decimal places
+ */
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? Math.round((numerator / denominator) * 100) / 100 : 0;
+}
+
+/**
+ * Match predictions against actual issues, set `confirmed` on each prediction
+ * and fill in the accuracy of the analysis
+ *
+ * @param checkedPages Slide numbers checked in the browser (predictions on other slides are ignored)
+ */
+export function matchPredictions(
+  analysis: ContentAnalysisResult,
+  slides: SlideResult[],
+  checkedPages: number[]
+): PredictionAccuracy {
+  const checked = new Set(checkedPages);
+  const skipped = new Set(
+    analysis.slideAnalysis.filter(slide => slide.skipped).map(slide => slide.slideIndex + 1)
+  );
+  const issuesByPage = new Map(
+    slides.map(slide => [slide.page, slide.issues.filter(issue => OVERFLOW_TYPES.has(issue.type))])
+  );
+
+  const predictions = analysis.predictions.predictions.filter(prediction =>
+    checked.has(prediction.slideIndex + 1)
+  );
+  const matchedIssues = new Set<Issue>();
+
+  for (const prediction of predictions) {
+    const issues = issuesByPage.get(prediction.slideIndex + 1) ?? [];
+    const matches = issues.filter(issue => overlaps(prediction, issue));
+
+    prediction.confirmed = matches.length > 0;
+    matches.forEach(issue => matchedIssues.add(issue));
+  }
+
+  // Issues on slides excluded from analysis could never have been predicted
+  const actualIssues = slides
+    .filter(slide => checked.has(slide.page) && !skipped.has(slide.page))
+    .flatMap(slide => issuesByPage.get(slide.page) ?? []);
+
+  const confirmed = predictions.filter(prediction => prediction.confirmed).length;
+
+  const accuracy: PredictionAccuracy = {
+    predicted: predictions.length,
+    confirmed,
+    falsePositives: predictions.length - confirmed,
+    falseNegatives: actualIssues.length - matchedIssues.size,
+    precision: ratio(confirmed, predictions.length),
+    recall: ratio(matchedIssues.size, actualIssues.length),
+  };
+
+  analysis.predictions.totalActual = actualIssues.length;
+  analysis.predictions.accuracy = accuracy;
+
+  return accuracy;
+}
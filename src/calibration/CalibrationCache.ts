@@ -0,0 +1,115 @@
+/**
+ * CalibrationCache - Stores measured StyleCalibrations on disk
+ *
+ * Calibrations and measured layout slots are keyed by theme and canvas size
+ * and kept under the project's `node_modules/.cache`, so static-only runs
+ * can reuse the values measured by an earlier browser run.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { CustomLayoutDefinition, StyleCalibration } from '../types/index.js';
+
+/**
+ * Cache directory relative to the project root
+ */
+const CACHE_DIR = join('node_modules', '.cache', 'slidev-overflow-checker');
+
+/**
+ * CalibrationCache class
+ */
+export class CalibrationCache {
+  private cacheDir: string;
+
+  constructor(projectPath: string) {
+    this.cacheDir = join(projectPath, CACHE_DIR);
+  }
+
+  /**
+   * Load the calibration for a theme and canvas size
+   *
+   * @returns null if nothing is cached or the cache file is unreadable
+   */
+  async load(
+    theme: string,
+    canvasWidth: number,
+    canvasHeight: number
+  ): Promise<StyleCalibration | null> {
+    try {
+      const content = await readFile(this.getPath(theme, canvasWidth, canvasHeight), 'utf-8');
+      return JSON.parse(content) as StyleCalibration;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save a calibration under its theme and canvas size
+   *
+   * @returns Path of the cache file
+   */
+  async save(calibration: StyleCalibration): Promise<string> {
+    const { canvasWidth, canvasHeight } = calibration.slideDimensions;
+    const path = this.getPath(calibration.themeUsed, canvasWidth, canvasHeight);
+
+    await mkdir(this.cacheDir, { recursive: true });
+    await writeFile(path, JSON.stringify(calibration, null, 2), 'utf-8');
+
+    return path;
+  }
+
+  /**
+   * Load the layout slots measured for a theme and canvas size
+   *
+   * @returns null if nothing is cached or the cache file is unreadable
+   */
+  async loadLayouts(
+    theme: string,
+    canvasWidth: number,
+    canvasHeight: number
+  ): Promise<Record<string, CustomLayoutDefinition> | null> {
+    try {
+      const content = await readFile(
+        this.getPath(theme, canvasWidth, canvasHeight, 'layouts'),
+        'utf-8'
+      );
+      return JSON.parse(content) as Record<string, CustomLayoutDefinition>;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save measured layout slots, merged with the layouts already cached
+   *
+   * @returns Path of the cache file
+   */
+  async saveLayouts(
+    theme: string,
+    canvasWidth: number,
+    canvasHeight: number,
+    layouts: Record<string, CustomLayoutDefinition>
+  ): Promise<string> {
+    const path = this.getPath(theme, canvasWidth, canvasHeight, 'layouts');
+    const cached = await this.loadLayouts(theme, canvasWidth, canvasHeight);
+
+    await mkdir(this.cacheDir, { recursive: true });
+    await writeFile(path, JSON.stringify({ ...cached, ...layouts }, null, 2), 'utf-8');
+
+    return path;
+  }
+
+  /**
+   * Get the cache file path for a theme and canvas size
+   */
+  getPath(
+    theme: string,
+    canvasWidth: number,
+    canvasHeight: number,
+    kind: 'calibration' | 'layouts' = 'calibration'
+  ): string {
+    // Theme names may be package names or local paths
+    const safeTheme = theme.replace(/[^a-zA-Z0-9_-]+/g, '_');
+    return join(this.cacheDir, `${kind}-${safeTheme}-${canvasWidth}x${canvasHeight}.json`);
+  }
+}
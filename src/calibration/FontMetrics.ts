@@ -0,0 +1,366 @@
+/**
+ * FontMetrics - Reads glyph advance widths from font files
+ *
+ * Minimal OpenType reader for TrueType/OpenType fonts, collections (.ttc)
+ * and WOFF. Only the tables needed for text width are parsed:
+ * head (units per em), hhea + hmtx (advance widths), cmap (character to
+ * glyph) and name (family name).
+ */
+
+import { open, readFile } from 'fs/promises';
+import { inflateSync } from 'zlib';
+
+/**
+ * Table directory entry
+ */
+interface TableEntry {
+  offset: number;
+  length: number;
+  /** Compressed length (WOFF only) */
+  compLength?: number;
+}
+
+/**
+ * Font face found in a font file
+ */
+export interface FontFace {
+  family: string;
+  subfamily: string;
+  path: string;
+  /** Face index within a collection (.ttc) */
+  faceIndex: number;
+}
+
+/**
+ * Read a 4-byte tag
+ */
+function readTag(buffer: Buffer, offset: number): string {
+  return buffer.toString('latin1', offset, offset + 4);
+}
+
+/**
+ * Parse the table directory of the face starting at offset
+ */
+function readTableDirectory(buffer: Buffer, offset: number): Map<string, TableEntry> {
+  const tables = new Map<string, TableEntry>();
+
+  if (readTag(buffer, offset) === 'wOFF') {
+    const numTables = buffer.readUInt16BE(offset + 12);
+    for (let i = 0; i < numTables; i++) {
+      const entry = offset + 44 + i * 20;
+      tables.set(readTag(buffer, entry), {
+        offset: buffer.readUInt32BE(entry + 4),
+        compLength: buffer.readUInt32BE(entry + 8),
+        length: buffer.readUInt32BE(entry + 12),
+      });
+    }
+    return tables;
+  }
+
+  const numTables = buffer.readUInt16BE(offset + 4);
+  for (let i = 0; i < numTables; i++) {
+    const entry = offset + 12 + i * 16;
+    tables.set(readTag(buffer, entry), {
+      offset: buffer.readUInt32BE(entry + 8),
+      length: buffer.readUInt32BE(entry + 12),
+    });
+  }
+  return tables;
+}
+
+/**
+ * Get offsets of each face in a font file (collections contain several)
+ */
+function readFaceOffsets(buffer: Buffer): number[] {
+  if (readTag(buffer, 0) !== 'ttcf') {
+    return [0];
+  }
+
+  const numFonts = buffer.readUInt32BE(8);
+  return Array.from({ length: numFonts }, (_, i) => buffer.readUInt32BE(12 + i * 4));
+}
+
+/**
+ * Extract table data, decompressing WOFF tables
+ */
+function readTable(buffer: Buffer, entry: TableEntry): Buffer {
+  const compLength = entry.compLength ?? entry.length;
+  const data = buffer.subarray(entry.offset, entry.offset + compLength);
+  return compLength < entry.length ? inflateSync(data) : data;
+}
+
+/**
+ * Read family and subfamily from a name table
+ *
+ * Typographic names (IDs 16/17) are preferred over legacy names (IDs 1/2),
+ * and Windows English names over other platforms.
+ */
+function parseNameTable(name: Buffer): { family: string; subfamily: string } | null {
+  const count = name.readUInt16BE(2);
+  const stringOffset = name.readUInt16BE(4);
+  const names = new Map<number, { value: string; priority: number }>();
+
+  for (let i = 0; i < count; i++) {
+    const record = 6 + i * 12;
+    const platformId = name.readUInt16BE(record);
+    const languageId = name.readUInt16BE(record + 4);
+    const nameId = name.readUInt16BE(record + 6);
+    const length = name.readUInt16BE(record + 8);
+    const start = stringOffset + name.readUInt16BE(record + 10);
+
+    if (![1, 2, 16, 17].includes(nameId) || (platformId !== 1 && platformId !== 3)) {
+      continue;
+    }
+
+    let value: string;
+    if (platformId === 3) {
+      // UTF-16BE
+      const chars: number[] = [];
+      for (let j = 0; j + 1 < length; j += 2) {
+        chars.push(name.readUInt16BE(start + j));
+      }
+      value = String.fromCharCode(...chars);
+    } else {
+      value = name.toString('latin1', start, start + length);
+    }
+
+    const priority = platformId === 3 ? (languageId === 0x409 ? 2 : 1) : 0;
+    const current = names.get(nameId);
+    if (!current || priority > current.priority) {
+      names.set(nameId, { value, priority });
+    }
+  }
+
+  const family = names.get(16)?.value ?? names.get(1)?.value;
+  if (!family) {
+    return null;
+  }
+
+  return {
+    family,
+    subfamily: names.get(17)?.value ?? names.get(2)?.value ?? 'Regular',
+  };
+}
+
+/**
+ * Parse a cmap subtable (formats 4 and 12) into a character to glyph map
+ */
+function parseCmapSubtable(cmap: Buffer, offset: number): Map<number, number> | null {
+  const glyphs = new Map<number, number>();
+  const format = cmap.readUInt16BE(offset);
+
+  if (format === 4) {
+    const segCount = cmap.readUInt16BE(offset + 6) / 2;
+    const endCodes = offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+
+    for (let i = 0; i < segCount; i++) {
+      const start = cmap.readUInt16BE(startCodes + i * 2);
+      const end = cmap.readUInt16BE(endCodes + i * 2);
+      const idDelta = cmap.readInt16BE(idDeltas + i * 2);
+      const idRangeOffset = cmap.readUInt16BE(idRangeOffsets + i * 2);
+
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let glyph: number;
+        if (idRangeOffset === 0) {
+          glyph = (code + idDelta) & 0xffff;
+        } else {
+          const address = idRangeOffsets + i * 2 + idRangeOffset + (code - start) * 2;
+          glyph = cmap.readUInt16BE(address);
+          if (glyph !== 0) {
+            glyph = (glyph + idDelta) & 0xffff;
+          }
+        }
+        if (glyph !== 0) {
+          glyphs.set(code, glyph);
+        }
+      }
+    }
+    return glyphs;
+  }
+
+  if (format === 12) {
+    const numGroups = cmap.readUInt32BE(offset + 12);
+    for (let i = 0; i < numGroups; i++) {
+      const group = offset + 16 + i * 12;
+      const start = cmap.readUInt32BE(group);
+      const end = cmap.readUInt32BE(group + 4);
+      const startGlyph = cmap.readUInt32BE(group + 8);
+      for (let code = start; code <= end; code++) {
+        glyphs.set(code, startGlyph + (code - start));
+      }
+    }
+    return glyphs;
+  }
+
+  return null;
+}
+
+/**
+ * Parse the best Unicode cmap subtable
+ */
+function parseCmap(cmap: Buffer): Map<number, number> {
+  const numTables = cmap.readUInt16BE(2);
+  const subtables: Array<{ offset: number; priority: number }> = [];
+
+  for (let i = 0; i < numTables; i++) {
+    const record = 4 + i * 8;
+    const platformId = cmap.readUInt16BE(record);
+    const encodingId = cmap.readUInt16BE(record + 2);
+    const offset = cmap.readUInt32BE(record + 4);
+
+    // Full Unicode tables first, then BMP tables
+    if (platformId === 3 && encodingId === 10) {
+      subtables.push({ offset, priority: 3 });
+    } else if (platformId === 0) {
+      subtables.push({ offset, priority: encodingId >= 4 ? 3 : 2 });
+    } else if (platformId === 3 && encodingId === 1) {
+      subtables.push({ offset, priority: 1 });
+    }
+  }
+
+  subtables.sort((a, b) => b.priority - a.priority);
+  for (const { offset } of subtables) {
+    const glyphs = parseCmapSubtable(cmap, offset);
+    if (glyphs) {
+      return glyphs;
+    }
+  }
+
+  return new Map();
+}
+
+/**
+ * FontMetrics class
+ */
+export class FontMetrics {
+  readonly family: string;
+  readonly subfamily: string;
+  private unitsPerEm: number;
+  private advances: number[];
+  private glyphs: Map<number, number>;
+
+  private constructor(
+    family: string,
+    subfamily: string,
+    unitsPerEm: number,
+    advances: number[],
+    glyphs: Map<number, number>
+  ) {
+    this.family = family;
+    this.subfamily = subfamily;
+    this.unitsPerEm = unitsPerEm;
+    this.advances = advances;
+    this.glyphs = glyphs;
+  }
+
+  /**
+   * Load metrics of a face from a font file
+   */
+  static async fromFile(path: string, faceIndex: number = 0): Promise<FontMetrics> {
+    return FontMetrics.parse(await readFile(path), faceIndex);
+  }
+
+  /**
+   * Parse metrics of a face from font data
+   */
+  static parse(buffer: Buffer, faceIndex: number = 0): FontMetrics {
+    const faceOffset = readFaceOffsets(buffer)[faceIndex];
+    if (faceOffset === undefined) {
+      throw new Error(`Font face ${faceIndex} not found`);
+    }
+
+    const tables = readTableDirectory(buffer, faceOffset);
+    const table = (tag: string): Buffer => {
+      const entry = tables.get(tag);
+      if (!entry) {
+        throw new Error(`Font is missing the ${tag} table`);
+      }
+      return readTable(buffer, entry);
+    };
+
+    const names = parseNameTable(table('name'));
+    const unitsPerEm = table('head').readUInt16BE(18);
+    const numberOfHMetrics = table('hhea').readUInt16BE(34);
+    const hmtx = table('hmtx');
+    const advances = Array.from({ length: numberOfHMetrics }, (_, i) => hmtx.readUInt16BE(i * 4));
+
+    return new FontMetrics(
+      names?.family ?? '',
+      names?.subfamily ?? 'Regular',
+      unitsPerEm,
+      advances,
+      parseCmap(table('cmap'))
+    );
+  }
+
+  /**
+   * Read the family names of every face in a font file without loading the whole file
+   */
+  static async readFaces(path: string): Promise<FontFace[]> {
+    const file = await open(path, 'r');
+    try {
+      const read = async (offset: number, length: number): Promise<Buffer> => {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await file.read(buffer, 0, length, offset);
+        return buffer.subarray(0, bytesRead);
+      };
+
+      const header = await read(0, 12);
+      let faceOffsets = [0];
+      if (readTag(header, 0) === 'ttcf') {
+        const numFonts = header.readUInt32BE(8);
+        const offsets = await read(12, numFonts * 4);
+        faceOffsets = Array.from({ length: numFonts }, (_, i) => offsets.readUInt32BE(i * 4));
+      }
+
+      const faces: FontFace[] = [];
+      for (const [faceIndex, faceOffset] of faceOffsets.entries()) {
+        const faceHeader = await read(faceOffset, 44);
+        const woff = readTag(faceHeader, 0) === 'wOFF';
+        const numTables = faceHeader.readUInt16BE(woff ? 12 : 4);
+        const directorySize = woff ? 44 + numTables * 20 : 12 + numTables * 16;
+
+        // Table offsets in the directory are relative to the start of the file
+        const directory = await read(faceOffset, directorySize);
+        const entry = readTableDirectory(directory, 0).get('name');
+        if (!entry) continue;
+
+        const nameData = await read(entry.offset, entry.compLength ?? entry.length);
+        const name = parseNameTable(
+          nameData.length < entry.length ? inflateSync(nameData) : nameData
+        );
+        if (name) {
+          faces.push({ ...name, path, faceIndex });
+        }
+      }
+
+      return faces;
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Check if the font has a glyph for a character
+   */
+  hasGlyph(codePoint: number): boolean {
+    return this.glyphs.has(codePoint);
+  }
+
+  /**
+   * Get advance width of a character in em, or undefined if the font has no glyph for it
+   */
+  getAdvance(codePoint: number): number | undefined {
+    const glyph = this.glyphs.get(codePoint);
+    if (glyph === undefined) {
+      return undefined;
+    }
+
+    // Glyphs past numberOfHMetrics share the last advance width
+    const advance = this.advances[Math.min(glyph, this.advances.length - 1)] ?? 0;
+    return advance / this.unitsPerEm;
+  }
+}
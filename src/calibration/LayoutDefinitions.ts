@@ -2,10 +2,19 @@
  * Layout Definitions for Slidev Built-in Layouts
  * Defines content areas based on layout type
  *
+ * Custom layouts (from a project's layouts/ directory or its theme) can be
+ * registered in a LayoutRegistry from a slot description and take priority
+ * over the built-ins.
+ *
  * Reference: https://sli.dev/builtin/layouts
  */
 
-import type { LayoutContentArea, SlotInfo } from '../types/index.js';
+import type {
+  CustomLayoutDefinition,
+  LayoutContentArea,
+  LayoutSlotDefinition,
+  SlotInfo,
+} from '../types/index.js';
 
 /**
  * Default Slidev padding (px-14 py-10 in UnoCSS)
@@ -334,6 +343,62 @@ export const LAYOUT_DEFINITIONS: Record<string, LayoutDefinition> = {
   },
 };
 
+/**
+ * Resolve a slot size (px or percentage of the content area size)
+ */
+function resolveSize(size: number | string, areaSize: number): number {
+  if (typeof size === 'number') {
+    return size;
+  }
+
+  const value = parseFloat(size);
+  if (Number.isNaN(value)) {
+    return areaSize;
+  }
+  return size.trim().endsWith('%') ? Math.floor((areaSize * value) / 100) : value;
+}
+
+/**
+ * Create a layout definition from a slot description
+ *
+ * Slots take priority over padding; without either, the slots of the
+ * extended built-in layout (default if omitted) are used.
+ */
+export function createLayoutDefinition(description: CustomLayoutDefinition): LayoutDefinition {
+  return (canvasWidth, canvasHeight) => {
+    if (!description.slots?.length && !description.padding) {
+      const base = LAYOUT_DEFINITIONS[description.extends ?? 'default'] || LAYOUT_DEFINITIONS.default;
+      return base(canvasWidth, canvasHeight);
+    }
+
+    const area = calculateContentArea(canvasWidth, canvasHeight, {
+      ...DEFAULT_PADDING,
+      ...description.padding,
+    });
+    const definitions: LayoutSlotDefinition[] = description.slots?.length
+      ? description.slots
+      : [{ name: 'default', width: area.width, height: area.height }];
+
+    const slots: SlotInfo[] = definitions.map(slot => ({
+      name: slot.name,
+      width: resolveSize(slot.width, area.width),
+      height: resolveSize(slot.height, area.height),
+      position: slot.position ?? 'full',
+    }));
+    return {
+      slots,
+      totalAvailableArea: slots.reduce((sum, slot) => sum + slot.width * slot.height, 0),
+    };
+  };
+}
+
+/**
+ * Check if a layout is one of Slidev's built-in layouts
+ */
+export function isBuiltinLayout(layout: string): boolean {
+  return Object.prototype.hasOwnProperty.call(LAYOUT_DEFINITIONS, layout);
+}
+
 /**
  * Get layout content area for a given layout type
  * Falls back to default layout if layout is unknown
@@ -352,6 +417,28 @@ export function getLayoutContentArea(
   };
 }
 
+/**
+ * Get the layout slot that a Markdown slot (`::name::`) renders into
+ *
+ * The default slot is the layout's first slot unless the layout has a slot
+ * named "default". Returns undefined for slots the layout does not render.
+ */
+export function getLayoutSlot(
+  layout: string,
+  canvasWidth: number,
+  canvasHeight: number,
+  slotName: string = 'default'
+): SlotInfo | undefined {
+  return findSlot(getLayoutContentArea(layout, canvasWidth, canvasHeight), slotName);
+}
+
+/**
+ * Find the slot a Markdown slot renders into in a layout content area
+ */
+function findSlot({ slots }: LayoutContentArea, slotName: string): SlotInfo | undefined {
+  return slots.find(slot => slot.name === slotName) ?? (slotName === 'default' ? slots[0] : undefined);
+}
+
 /**
  * Get the primary (first) slot width for a layout
  * Useful for quick text overflow checks
@@ -364,3 +451,57 @@ export function getPrimarySlotWidth(
   const layoutArea = getLayoutContentArea(layout, canvasWidth, canvasHeight);
   return layoutArea.slots[0]?.width || calculateContentArea(canvasWidth, canvasHeight).width;
 }
+
+/**
+ * Custom layouts of a deck, used before the built-in layouts
+ *
+ * Each analyzer keeps its own registry, so decks analyzed in the same
+ * process do not see each other's layouts.
+ */
+export class LayoutRegistry {
+  private layouts = new Map<string, LayoutDefinition>();
+
+  /**
+   * Register a custom layout (replaces a built-in or earlier layout of the same name)
+   */
+  register(name: string, description: CustomLayoutDefinition): void {
+    this.layouts.set(name, createLayoutDefinition(description));
+  }
+
+  /**
+   * Remove all registered custom layouts
+   */
+  clear(): void {
+    this.layouts.clear();
+  }
+
+  /**
+   * Check if a layout is registered or built in
+   */
+  isKnown(layout: string): boolean {
+    return this.layouts.has(layout) || isBuiltinLayout(layout);
+  }
+
+  /**
+   * Get layout content area, falling back to the built-in layouts
+   */
+  getContentArea(layout: string, canvasWidth: number, canvasHeight: number): LayoutContentArea {
+    const definition = this.layouts.get(layout);
+    if (!definition) {
+      return getLayoutContentArea(layout, canvasWidth, canvasHeight);
+    }
+    return { layout, ...definition(canvasWidth, canvasHeight) };
+  }
+
+  /**
+   * Get the layout slot that a Markdown slot (`::name::`) renders into
+   */
+  getSlot(
+    layout: string,
+    canvasWidth: number,
+    canvasHeight: number,
+    slotName: string = 'default'
+  ): SlotInfo | undefined {
+    return findSlot(this.getContentArea(layout, canvasWidth, canvasHeight), slotName);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * LayoutProbe - Measures the slot boxes of a rendered custom layout
+ *
+ * Finds the element each Markdown slot rendered into (by a snippet of the
+ * slot's text) and reads the box of its outermost wrapper inside
+ * `.slidev-layout`, giving a slot description for layouts that have none.
+ */
+
+import type { Page } from 'playwright';
+import { installPageHelpers, type PageHelperWindow } from '../checker/PageHelpers.js';
+import type { CustomLayoutDefinition, LayoutSlotDefinition } from '../types/index.js';
+
+/**
+ * Text snippet used to locate where a Markdown slot rendered
+ */
+export interface SlotMarker {
+  name: string;
+  text: string;
+}
+
+/**
+ * LayoutProbe class
+ */
+export class LayoutProbe {
+  private page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * Measure the slots of the layout on the slide currently shown
+   *
+   * Slots whose text is not found are left out. If none are found, the
+   * layout's content box is used as the default slot.
+   *
+   * @returns null if no `.slidev-layout` is rendered
+   */
+  async probe(markers: SlotMarker[]): Promise<CustomLayoutDefinition | null> {
+    await installPageHelpers(this.page);
+    const slots = await this.page.evaluate((slotMarkers: SlotMarker[]) => {
+      const { findSlideLayout } = (window as PageHelperWindow).__slidevChecker!;
+      const layout = findSlideLayout() as HTMLElement | null;
+
+      if (!layout) {
+        return null;
+      }
+
+      // Content box in layout px (offset sizes ignore the slide scale transform)
+      const contentBox = (element: HTMLElement) => {
+        const style = window.getComputedStyle(element);
+        return {
+          width:
+            element.offsetWidth -
+            (parseFloat(style.paddingLeft) || 0) -
+            (parseFloat(style.paddingRight) || 0),
+          height:
+            element.offsetHeight -
+            (parseFloat(style.paddingTop) || 0) -
+            (parseFloat(style.paddingBottom) || 0),
+        };
+      };
+
+      const layoutRect = layout.getBoundingClientRect();
+      const getPosition = (element: HTMLElement) => {
+        if (element === layout || layoutRect.width === 0 || layoutRect.height === 0) {
+          return 'full' as const;
+        }
+        const rect = element.getBoundingClientRect();
+        const left = (rect.left - layoutRect.left) / layoutRect.width;
+        const top = (rect.top - layoutRect.top) / layoutRect.height;
+        const width = rect.width / layoutRect.width;
+        const height = rect.height / layoutRect.height;
+
+        if (width > 0.75) {
+          if (top + height <= 0.5) return 'top' as const;
+          if (top >= 0.5) return 'bottom' as const;
+          return 'full' as const;
+        }
+        return left + width / 2 < 0.5 ? ('left' as const) : ('right' as const);
+      };
+
+      const MARKDOWN_ELEMENTS =
+        'h1, h2, h3, h4, h5, h6, p, ul, ol, pre, table, blockquote, img, [class*="slidev-code"]';
+      const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+      const elements = Array.from(layout.querySelectorAll<HTMLElement>('*')).reverse();
+      const found = new Set<HTMLElement>();
+      const slots = [];
+
+      for (const marker of slotMarkers) {
+        // Deepest element containing the text, then its wrapper directly inside the layout
+        let element = elements.find(candidate =>
+          normalize(candidate.textContent ?? '').includes(marker.text)
+        );
+        if (!element) continue;
+
+        while (element.parentElement && element.parentElement !== layout) {
+          element = element.parentElement;
+        }
+
+        // Markdown rendered directly into the layout (no slot wrapper) fills the layout
+        const box = element.matches(MARKDOWN_ELEMENTS) ? layout : element;
+        if (found.has(box)) continue;
+        found.add(box);
+
+        const { width, height } = contentBox(box);
+        slots.push({
+          name: marker.name,
+          width: Math.round(width),
+          height: Math.round(height),
+          position: getPosition(box),
+        });
+      }
+
+      if (slots.length === 0) {
+        const { width, height } = contentBox(layout);
+        slots.push({
+          name: 'default',
+          width: Math.round(width),
+          height: Math.round(height),
+          position: 'full' as const,
+        });
+      }
+
+      return slots;
+    }, markers);
+
+    return slots ? { slots: slots as LayoutSlotDefinition[] } : null;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * StyleCalibrator - Measures the theme's actual styles on a rendered slide
+ *
+ * Inserts hidden probe elements into the current slide's `.slidev-layout`
+ * and reads their computed styles, so predictions use the real theme values
+ * instead of the Slidev defaults.
+ */
+
+import type { Page } from 'playwright';
+import { installPageHelpers, type PageHelperWindow } from '../checker/PageHelpers.js';
+import type { StyleCalibration } from '../types/index.js';
+
+/**
+ * Slide and canvas the calibration is taken for
+ */
+export interface CalibrationTarget {
+  theme: string;
+  /** Slide number (1-based) to measure on */
+  slide: number;
+  slideDimensions: StyleCalibration['slideDimensions'];
+}
+
+/**
+ * Computed font size (px) and line height (ratio) of a probe element
+ */
+interface ProbeStyle {
+  fontSize: number;
+  lineHeight: number;
+  fontFamily: string;
+}
+
+/**
+ * Raw values read in the browser
+ */
+interface MeasuredStyles {
+  layoutWidth: number;
+  layoutHeight: number;
+  padding: StyleCalibration['actualPadding'];
+  h1: ProbeStyle;
+  h2: ProbeStyle;
+  h3: ProbeStyle;
+  h4: ProbeStyle;
+  paragraph: ProbeStyle;
+  listItem: ProbeStyle;
+  code: ProbeStyle;
+  serif: ProbeStyle;
+}
+
+/**
+ * Round to two decimal places
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * StyleCalibrator class
+ */
+export class StyleCalibrator {
+  private page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * Build a calibration from the slide currently shown
+   *
+   * @returns null if no `.slidev-layout` is rendered
+   */
+  async calibrate(target: CalibrationTarget): Promise<StyleCalibration | null> {
+    const measured = await this.measure();
+    if (!measured) {
+      return null;
+    }
+
+    const { padding } = measured;
+    const styles = {
+      h1: measured.h1,
+      h2: measured.h2,
+      h3: measured.h3,
+      h4: measured.h4,
+      paragraph: measured.paragraph,
+      code: measured.code,
+      listItem: measured.listItem,
+    };
+    const fontSizes = Object.fromEntries(
+      Object.entries(styles).map(([key, style]) => [key, round(style.fontSize)])
+    ) as StyleCalibration['actualFontSizes'];
+    const lineHeights = Object.fromEntries(
+      Object.entries(styles).map(([key, style]) => [key, round(style.lineHeight)])
+    ) as StyleCalibration['actualLineHeights'];
+
+    return {
+      slideDimensions: { ...target.slideDimensions },
+      actualPadding: padding,
+      actualFontSizes: fontSizes,
+      actualLineHeights: lineHeights,
+      fontFamilies: {
+        sans: measured.paragraph.fontFamily,
+        mono: measured.code.fontFamily,
+        serif: measured.serif.fontFamily,
+      },
+      contentArea: {
+        width: measured.layoutWidth - padding.left - padding.right,
+        height: measured.layoutHeight - padding.top - padding.bottom,
+      },
+      calibratedAt: new Date().toISOString(),
+      themeUsed: target.theme,
+      slideUsedForCalibration: target.slide,
+    };
+  }
+
+  /**
+   * Read computed styles of probe elements inside the active slide's layout
+   */
+  private async measure(): Promise<MeasuredStyles | null> {
+    await installPageHelpers(this.page);
+    return await this.page.evaluate(() => {
+      const { findSlideLayout } = (window as PageHelperWindow).__slidevChecker!;
+      const layout = findSlideLayout() as HTMLElement | null;
+
+      if (!layout) {
+        return null;
+      }
+
+      const probe = document.createElement('div');
+      probe.setAttribute('aria-hidden', 'true');
+      probe.style.cssText = 'position:absolute;left:0;top:0;width:100%;visibility:hidden;pointer-events:none;';
+      probe.innerHTML = [
+        '<h1>Ag</h1>',
+        '<h2>Ag</h2>',
+        '<h3>Ag</h3>',
+        '<h4>Ag</h4>',
+        '<p>Ag</p>',
+        '<ul><li>Ag</li></ul>',
+        '<pre class="slidev-code"><code>Ag</code></pre>',
+        '<p class="font-serif">Ag</p>',
+      ].join('');
+      layout.appendChild(probe);
+
+      const read = (selector: string) => {
+        const style = window.getComputedStyle(probe.querySelector(selector) as Element);
+        const fontSize = parseFloat(style.fontSize);
+        const lineHeight = parseFloat(style.lineHeight);
+        return {
+          fontSize,
+          // "normal" is roughly 1.2 for most fonts
+          lineHeight: Number.isNaN(lineHeight) ? 1.2 : lineHeight / fontSize,
+          fontFamily: style.fontFamily,
+        };
+      };
+
+      const layoutStyle = window.getComputedStyle(layout);
+      const result = {
+        layoutWidth: layout.offsetWidth,
+        layoutHeight: layout.offsetHeight,
+        padding: {
+          left: parseFloat(layoutStyle.paddingLeft) || 0,
+          right: parseFloat(layoutStyle.paddingRight) || 0,
+          top: parseFloat(layoutStyle.paddingTop) || 0,
+          bottom: parseFloat(layoutStyle.paddingBottom) || 0,
+        },
+        h1: read('h1'),
+        h2: read('h2'),
+        h3: read('h3'),
+        h4: read('h4'),
+        paragraph: read('p'),
+        listItem: read('li'),
+        code: read('code'),
+        serif: read('.font-serif'),
+      };
+
+      probe.remove();
+      return result;
+    });
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * TextMeasurer - Measures text width from real font metrics
+ *
+ * Font files are looked up by family in the configured directories and the
+ * system font directories. Characters the fonts do not cover are estimated:
+ * full-width (CJK) characters at 1em, everything else with an average
+ * character width ratio.
+ */
+
+import { readFileSync } from 'fs';
+import { readdir } from 'fs/promises';
+import { homedir } from 'os';
+import { extname, join } from 'path';
+import { FontMetrics, type FontFace } from './FontMetrics.js';
+
+/**
+ * Character width ratio (approximate average character width / font size)
+ * This is an estimation for proportional fonts
+ */
+export const CHAR_WIDTH_RATIO = 0.6;
+
+/**
+ * Supported font file extensions
+ */
+const FONT_EXTENSIONS = new Set(['.ttf', '.otf', '.ttc', '.woff']);
+
+/**
+ * Maximum directory depth searched for font files
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Font files read at the same time (system font directories hold thousands)
+ */
+const READ_CONCURRENCY = 16;
+
+/**
+ * Generic CSS families that cannot be resolved to a font file
+ */
+const GENERIC_FAMILIES = new Set([
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+  'ui-sans-serif',
+  'ui-serif',
+  'ui-monospace',
+  'ui-rounded',
+  'emoji',
+  'math',
+  'fangsong',
+]);
+
+/**
+ * Result of a width measurement
+ */
+export interface WidthMeasurement {
+  width: number;
+  /** True when every character was measured from font metrics (or is full-width) */
+  exact: boolean;
+}
+
+/**
+ * Result of wrapping text into lines
+ */
+export interface WrapResult {
+  lines: number;
+  /** Width of the widest line */
+  width: number;
+  exact: boolean;
+}
+
+/**
+ * Get the OS font directories
+ */
+function getSystemFontDirs(): string[] {
+  const home = homedir();
+
+  switch (process.platform) {
+    case 'darwin':
+      return ['/System/Library/Fonts', '/Library/Fonts', join(home, 'Library', 'Fonts')];
+    case 'win32':
+      return [join(process.env.WINDIR ?? 'C:\\Windows', 'Fonts')];
+    default:
+      return [
+        '/usr/share/fonts',
+        '/usr/local/share/fonts',
+        join(home, '.local', 'share', 'fonts'),
+        join(home, '.fonts'),
+      ];
+  }
+}
+
+/**
+ * Check if a character is rendered full-width (CJK, kana, hangul, full-width forms)
+ */
+export function isFullWidth(codePoint: number): boolean {
+  return (
+    (codePoint >= 0x1100 && codePoint <= 0x115f) || // Hangul Jamo
+    (codePoint >= 0x2e80 && codePoint <= 0x303e) || // CJK radicals, punctuation
+    (codePoint >= 0x3041 && codePoint <= 0x33ff) || // Kana, CJK compatibility
+    (codePoint >= 0x3400 && codePoint <= 0x4dbf) || // CJK extension A
+    (codePoint >= 0x4e00 && codePoint <= 0x9fff) || // CJK unified ideographs
+    (codePoint >= 0xa960 && codePoint <= 0xa97f) || // Hangul Jamo extended-A
+    (codePoint >= 0xac00 && codePoint <= 0xd7a3) || // Hangul syllables
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) || // CJK compatibility ideographs
+    (codePoint >= 0xfe30 && codePoint <= 0xfe4f) || // CJK compatibility forms
+    (codePoint >= 0xff00 && codePoint <= 0xff60) || // Full-width forms
+    (codePoint >= 0xffe0 && codePoint <= 0xffe6) ||
+    (codePoint >= 0x1f300 && codePoint <= 0x1faff) || // Emoji
+    (codePoint >= 0x20000 && codePoint <= 0x3fffd) // CJK extensions B and later
+  );
+}
+
+/**
+ * Check if a face is the upright regular style of its family
+ */
+function isRegular(face: FontFace): boolean {
+  return /^(regular|book|normal|roman)$/i.test(face.subfamily);
+}
+
+/**
+ * Split a CSS font-family list into family names
+ */
+function parseFamilies(fontFamily: string): string[] {
+  return fontFamily
+    .split(',')
+    .map(family => family.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * TextMeasurer class
+ */
+export class TextMeasurer {
+  private faces: Map<string, FontFace>;
+  private loaded = new Map<string, FontMetrics | null>();
+
+  /**
+   * @param faces Available font faces; the first regular face of each family is used
+   */
+  constructor(faces: FontFace[] = []) {
+    this.faces = new Map();
+    for (const face of faces) {
+      const key = face.family.toLowerCase();
+      const current = this.faces.get(key);
+      if (!current || (!isRegular(current) && isRegular(face))) {
+        this.faces.set(key, face);
+      }
+    }
+  }
+
+  /**
+   * Create a measurer from the fonts in the given and system font directories
+   */
+  static async create(fontDirs: string[] = [], includeSystemFonts: boolean = true): Promise<TextMeasurer> {
+    const dirs = includeSystemFonts ? [...fontDirs, ...getSystemFontDirs()] : fontDirs;
+    const files = (await Promise.all(dirs.map(dir => TextMeasurer.findFontFiles(dir)))).flat();
+
+    // Faces are kept in file order, so the same face wins for a family on every run
+    const faces: FontFace[][] = [];
+    let next = 0;
+    const readNext = async (): Promise<void> => {
+      while (next < files.length) {
+        const index = next++;
+        faces[index] = await TextMeasurer.readFaces(files[index]);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, files.length) }, readNext));
+
+    return new TextMeasurer(faces.flat());
+  }
+
+  /**
+   * Read the faces of a font file, skipping unsupported or corrupt files
+   *
+   * File system errors (permissions, too many open files) are thrown.
+   */
+  private static async readFaces(file: string): Promise<FontFace[]> {
+    try {
+      return await FontMetrics.readFaces(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).syscall) {
+        throw error;
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Find font files in a directory (recursively)
+   */
+  private static async findFontFiles(dir: string, depth: number = 0): Promise<string[]> {
+    if (depth > MAX_SEARCH_DEPTH) {
+      return [];
+    }
+
+    try {
+      const entries = await readdir(dir, { withFileTypes: true });
+      const nested = await Promise.all(
+        entries.map(entry => {
+          const path = join(dir, entry.name);
+          if (entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+            return TextMeasurer.findFontFiles(path, depth + 1);
+          }
+          return Promise.resolve(
+            entry.isFile() && FONT_EXTENSIONS.has(extname(entry.name).toLowerCase()) ? [path] : []
+          );
+        })
+      );
+      return nested.flat();
+    } catch {
+      // Directory does not exist or is not readable
+      return [];
+    }
+  }
+
+  /**
+   * Check if metrics are available for any family in a CSS font-family list
+   */
+  hasFont(fontFamily: string): boolean {
+    return this.resolveFonts(fontFamily).length > 0;
+  }
+
+  /**
+   * Measure the width of a single line of text
+   */
+  measureWidth(text: string, fontSize: number, fontFamily: string = ''): WidthMeasurement {
+    const fonts = this.resolveFonts(fontFamily);
+    let width = 0;
+    let exact = fonts.length > 0;
+
+    for (const char of text) {
+      const codePoint = char.codePointAt(0) ?? 0;
+      const advance = this.getAdvance(fonts, codePoint);
+
+      if (advance !== undefined) {
+        width += advance * fontSize;
+      } else if (isFullWidth(codePoint)) {
+        width += fontSize;
+      } else {
+        width += fontSize * CHAR_WIDTH_RATIO;
+        exact = false;
+      }
+    }
+
+    return { width, exact };
+  }
+
+  /**
+   * Wrap text greedily at spaces and between full-width characters
+   */
+  wrap(text: string, fontSize: number, maxWidth: number, fontFamily: string = ''): WrapResult {
+    let lines = 1;
+    let lineWidth = 0;
+    let maxLineWidth = 0;
+    let exact = true;
+
+    for (const token of this.tokenize(text)) {
+      const trimmed = token.trimEnd();
+      const word = this.measureWidth(trimmed, fontSize, fontFamily);
+      const space = this.measureWidth(token.slice(trimmed.length), fontSize, fontFamily);
+      exact = exact && word.exact && space.exact;
+
+      // Trailing spaces may hang past the end of the line
+      if (lineWidth > 0 && lineWidth + word.width > maxWidth) {
+        lines++;
+        lineWidth = 0;
+      }
+
+      maxLineWidth = Math.max(maxLineWidth, lineWidth + word.width);
+      lineWidth += word.width + space.width;
+    }
+
+    return { lines, width: maxLineWidth, exact };
+  }
+
+  /**
+   * Split text into unbreakable tokens: words with their trailing spaces,
+   * and single full-width characters
+   */
+  private tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+
+    for (const char of text) {
+      const codePoint = char.codePointAt(0) ?? 0;
+      if (/\s/.test(char)) {
+        current += char;
+      } else if (isFullWidth(codePoint) || /\s$/.test(current)) {
+        if (current) tokens.push(current);
+        current = char;
+        if (isFullWidth(codePoint)) {
+          tokens.push(current);
+          current = '';
+        }
+      } else {
+        current += char;
+      }
+    }
+
+    if (current) tokens.push(current);
+    return tokens;
+  }
+
+  /**
+   * Get metrics of the families in a CSS font-family list that have font files
+   */
+  private resolveFonts(fontFamily: string): FontMetrics[] {
+    return parseFamilies(fontFamily)
+      .filter(family => !GENERIC_FAMILIES.has(family.toLowerCase()))
+      .map(family => this.load(family))
+      .filter((metrics): metrics is FontMetrics => metrics !== null);
+  }
+
+  /**
+   * Get advance width (em) from the first font with a glyph, like browser font fallback
+   */
+  private getAdvance(fonts: FontMetrics[], codePoint: number): number | undefined {
+    for (const font of fonts) {
+      const advance = font.getAdvance(codePoint);
+      if (advance !== undefined) {
+        return advance;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Load metrics for a family on first use (cached)
+   */
+  private load(family: string): FontMetrics | null {
+    const key = family.toLowerCase();
+    if (!this.loaded.has(key)) {
+      const face = this.faces.get(key);
+      let metrics: FontMetrics | null = null;
+      if (face) {
+        try {
+          metrics = FontMetrics.parse(readFileSync(face.path), face.faceIndex);
+        } catch {
+          // Unsupported or corrupt font file, fall back to estimation
+          metrics = null;
+        }
+      }
+      this.loaded.set(key, metrics);
+    }
+    return this.loaded.get(key) ?? null;
+  }
+}
@@ -2,11 +2,18 @@
  * TextPredictor - Predicts text overflow using Canvas.measureText() simulation
  *
  * Uses calibrated font sizes and content area dimensions to estimate
- * whether text will overflow without rendering in browser.
+ * whether text will overflow without rendering in browser. Widths come
+ * from font metrics when a TextMeasurer with the theme's fonts is given.
  */
 
-import type { StyleCalibration, TextMeasurement, ContentAnalysisThresholds } from '../types/index.js';
-import { getLayoutContentArea } from './LayoutDefinitions.js';
+import type {
+  StyleCalibration,
+  TextMeasurement,
+  ContentAnalysisThresholds,
+  ContentNode,
+} from '../types/index.js';
+import { LayoutRegistry } from './LayoutDefinitions.js';
+import { TextMeasurer, type WidthMeasurement } from './TextMeasurer.js';
 
 /**
  * Default character thresholds for overflow prediction
@@ -20,12 +27,6 @@ const DEFAULT_THRESHOLDS: Required<
   codeMaxLines: 30,
 };
 
-/**
- * Character width ratio (approximate average character width / font size)
- * This is an estimation for proportional fonts
- */
-const CHAR_WIDTH_RATIO = 0.6;
-
 /**
  * Default Slidev dimensions
  */
@@ -68,6 +69,40 @@ const DEFAULT_LINE_HEIGHTS = {
   listItem: 1.6,
 };
 
+/**
+ * Vertical space between blocks (collapsed my-4 margins)
+ */
+const BLOCK_SPACING = 16;
+
+/**
+ * Vertical padding inside code blocks and blockquotes
+ */
+const BLOCK_PADDING = 24;
+
+/**
+ * Vertical padding of a table row
+ */
+const TABLE_ROW_PADDING = 12;
+
+/**
+ * Indent per list nesting level
+ */
+const LIST_INDENT = 24;
+
+/**
+ * Height assumed for images, whose size is unknown without the asset
+ */
+const DEFAULT_IMAGE_HEIGHT = 200;
+
+/**
+ * Predicted position of a block within a stack
+ */
+export interface StackedBlock {
+  node: ContentNode;
+  top: number;
+  bottom: number;
+}
+
 /**
  * Creates a default StyleCalibration based on Slidev defaults
  */
@@ -105,7 +140,7 @@ export function createDefaultCalibration(
 /**
  * Element types that can be measured
  */
-type ElementType = 'h1' | 'h2' | 'h3' | 'h4' | 'paragraph' | 'code' | 'listItem';
+export type ElementType = 'h1' | 'h2' | 'h3' | 'h4' | 'paragraph' | 'code' | 'listItem';
 
 /**
  * Layout types supported
@@ -120,12 +155,18 @@ export class TextPredictor {
   private thresholds: Required<
     Pick<ContentAnalysisThresholds, 'h1MaxChars' | 'h2MaxChars' | 'h3MaxChars' | 'codeMaxLines'>
   >;
+  private measurer: TextMeasurer;
+  private layouts: LayoutRegistry;
 
   constructor(
     calibration: StyleCalibration,
-    thresholds?: Partial<ContentAnalysisThresholds>
+    thresholds?: Partial<ContentAnalysisThresholds>,
+    measurer: TextMeasurer = new TextMeasurer(),
+    layouts: LayoutRegistry = new LayoutRegistry()
   ) {
     this.calibration = calibration;
+    this.measurer = measurer;
+    this.layouts = layouts;
     this.thresholds = {
       h1MaxChars: thresholds?.h1MaxChars ?? DEFAULT_THRESHOLDS.h1MaxChars,
       h2MaxChars: thresholds?.h2MaxChars ?? DEFAULT_THRESHOLDS.h2MaxChars,
@@ -148,52 +189,40 @@ export class TextPredictor {
     return this.calibration.actualFontSizes[elementType];
   }
 
+  /**
+   * Get font family for element type
+   */
+  private getFontFamily(elementType: ElementType): string {
+    return elementType === 'code'
+      ? this.calibration.fontFamilies.mono
+      : this.calibration.fontFamilies.sans;
+  }
+
   /**
    * Get font string for element type
    */
   private getFontString(elementType: ElementType): string {
-    const size = this.getFontSize(elementType);
-    const family =
-      elementType === 'code'
-        ? this.calibration.fontFamilies.mono
-        : this.calibration.fontFamilies.sans;
-    return `${size}px ${family}`;
+    return `${this.getFontSize(elementType)}px ${this.getFontFamily(elementType)}`;
   }
 
   /**
    * Estimate text width based on character count and font size
-   * Uses approximate character width ratio
+   * Uses approximate character width ratio (full-width characters count as 1em)
    */
   estimateTextWidth(text: string, fontSize: number): number {
-    return text.length * fontSize * CHAR_WIDTH_RATIO;
+    return this.measurer.measureWidth(text, fontSize).width;
   }
 
   /**
    * Measure text and return measurement result
    */
   measureText(text: string, elementType: ElementType): TextMeasurement {
-    const fontSize = this.getFontSize(elementType);
-    const font = this.getFontString(elementType);
-    const measuredWidth = this.estimateTextWidth(text, fontSize);
-    const lineHeight = this.calibration.actualLineHeights[elementType] ?? 1.5;
-    const measuredHeight = fontSize * lineHeight;
-    const availableWidth = this.calibration.contentArea.width;
-    const availableHeight = this.calibration.contentArea.height;
-
-    const willOverflow = measuredWidth > availableWidth;
-    const overflowAmount = willOverflow ? measuredWidth - availableWidth : 0;
-
-    return {
+    return this.measure(
       text,
-      font,
-      measuredWidth,
-      measuredHeight,
-      availableWidth,
-      availableHeight,
-      willOverflow,
-      overflowAmount,
-      confidence: 'medium', // Without actual font loading, confidence is medium
-    };
+      elementType,
+      this.calibration.contentArea.width,
+      this.calibration.contentArea.height
+    );
   }
 
   /**
@@ -212,44 +241,170 @@ export class TextPredictor {
 
   /**
    * Measure text with layout-specific available width
+   *
+   * @param slot Markdown slot name the text is in (default: the layout's first slot)
    */
   measureTextForLayout(
     text: string,
     elementType: ElementType,
-    layout: LayoutType
+    layout: LayoutType,
+    slot: string = 'default'
   ): TextMeasurement {
-    const layoutArea = getLayoutContentArea(
+    const slotInfo = this.layouts.getSlot(
       layout,
       this.calibration.slideDimensions.canvasWidth,
-      this.calibration.slideDimensions.canvasHeight
+      this.calibration.slideDimensions.canvasHeight,
+      slot
     );
 
+    const availableWidth = slotInfo?.width ?? this.calibration.contentArea.width;
+    const availableHeight = slotInfo?.height ?? this.calibration.contentArea.height;
+
+    return this.measure(text, elementType, availableWidth, availableHeight);
+  }
+
+  /**
+   * Measure text against an available area
+   *
+   * Code is not wrapped: its width is the single-line width. Other text wraps
+   * to the available width, so it only overflows horizontally when a single
+   * unbreakable word is wider than the area, and vertically when the wrapped
+   * lines are taller than it.
+   */
+  private measure(
+    text: string,
+    elementType: ElementType,
+    availableWidth: number,
+    availableHeight: number
+  ): TextMeasurement {
     const fontSize = this.getFontSize(elementType);
-    const font = this.getFontString(elementType);
-    const measuredWidth = this.estimateTextWidth(text, fontSize);
+    const family = this.getFontFamily(elementType);
     const lineHeight = this.calibration.actualLineHeights[elementType] ?? 1.5;
-    const measuredHeight = fontSize * lineHeight;
 
-    // Use first slot's width as available width
-    const availableWidth = layoutArea.slots[0]?.width ?? this.calibration.contentArea.width;
-    const availableHeight = layoutArea.slots[0]?.height ?? this.calibration.contentArea.height;
+    let width: WidthMeasurement;
+    let lineCount: number;
+    if (elementType === 'code') {
+      width = this.measurer.measureWidth(text, fontSize, family);
+      lineCount = text.split('\n').length;
+    } else {
+      const wrapped = this.measurer.wrap(text, fontSize, availableWidth, family);
+      width = wrapped;
+      lineCount = wrapped.lines;
+    }
 
-    const willOverflow = measuredWidth > availableWidth;
-    const overflowAmount = willOverflow ? measuredWidth - availableWidth : 0;
+    const measuredWidth = width.width;
+    const measuredHeight = lineCount * fontSize * lineHeight;
+    const overflowX = Math.max(0, measuredWidth - availableWidth);
+    const overflowY = elementType === 'code' ? 0 : Math.max(0, measuredHeight - availableHeight);
+    const willOverflow = overflowX > 0 || overflowY > 0;
+    const overflowAmount = overflowX > 0 ? overflowX : overflowY;
 
     return {
       text,
-      font,
+      font: this.getFontString(elementType),
       measuredWidth,
       measuredHeight,
       availableWidth,
       availableHeight,
+      lineCount,
       willOverflow,
       overflowAmount,
-      confidence: 'medium',
+      // Estimated widths are only medium confidence
+      confidence: width.exact ? 'high' : 'medium',
     };
   }
 
+  /**
+   * Predict the rendered height of a content node at the given width
+   *
+   * Nodes that do not render a block (slot separators, components) are 0.
+   */
+  predictBlockHeight(node: ContentNode, width: number): number {
+    switch (node.type) {
+      case 'heading': {
+        const elementType = `h${Math.min(node.level ?? 1, 4)}` as ElementType;
+        return this.measure(node.text ?? '', elementType, width, Infinity).measuredHeight;
+      }
+
+      case 'paragraph':
+        return this.measure(node.text ?? '', 'paragraph', width, Infinity).measuredHeight;
+
+      case 'blockquote': {
+        const text = node.content.replace(/^\s*>+\s?/gm, '').replace(/\n/g, ' ');
+        return (
+          this.measure(text, 'paragraph', width - BLOCK_PADDING, Infinity).measuredHeight +
+          BLOCK_PADDING
+        );
+      }
+
+      case 'list':
+        return this.predictListHeight(node.content, width);
+
+      case 'code-block': {
+        const lines = (node.metadata.lineCount as number) ?? 0;
+        const fontSize = this.getFontSize('code');
+        return lines * fontSize * this.calibration.actualLineHeights.code + BLOCK_PADDING;
+      }
+
+      case 'table': {
+        // Header row plus body rows, cells assumed not to wrap
+        const rows = ((node.metadata.rows as number) ?? 0) + 1;
+        const fontSize = this.getFontSize('paragraph');
+        const rowHeight = fontSize * this.calibration.actualLineHeights.paragraph + TABLE_ROW_PADDING;
+        return rows * rowHeight;
+      }
+
+      case 'image':
+        return DEFAULT_IMAGE_HEIGHT;
+
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Stack content nodes vertically and predict where each block ends
+   */
+  stackBlocks(nodes: ContentNode[], width: number): StackedBlock[] {
+    const blocks: StackedBlock[] = [];
+    let top = 0;
+
+    for (const node of nodes) {
+      const height = this.predictBlockHeight(node, width);
+      if (height <= 0) continue;
+
+      if (blocks.length > 0) {
+        top += BLOCK_SPACING;
+      }
+      blocks.push({ node, top, bottom: top + height });
+      top += height;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Predict list height, wrapping each item at its indent
+   */
+  private predictListHeight(content: string, width: number): number {
+    const items: Array<{ text: string; depth: number }> = [];
+
+    for (const line of content.split('\n')) {
+      const marker = line.match(/^(\s*)(?:[-*+]|\d+\.)\s+(.*)$/);
+      if (marker) {
+        items.push({ text: marker[2], depth: Math.floor(marker[1].length / 2) });
+      } else if (line.trim() && items.length > 0) {
+        // Continuation line of the previous item
+        items[items.length - 1].text += ` ${line.trim()}`;
+      }
+    }
+
+    return items.reduce((sum, item) => {
+      const itemWidth = width - LIST_INDENT * (item.depth + 1);
+      return sum + this.measure(item.text, 'listItem', itemWidth, Infinity).measuredHeight;
+    }, 0);
+  }
+
   /**
    * Predict heading overflow based on character threshold
    */
@@ -0,0 +1,65 @@
+import { Page, Request } from 'playwright';
+import { AssetFailure } from '../types';
+
+/**
+ * Resource types reported only when no element on a slide references them
+ * (they are not tied to a slide, so they go to the first slide checked after failing)
+ */
+const GLOBAL_RESOURCE_TYPES = new Set(['font', 'stylesheet']);
+
+/**
+ * Class that records failed network requests of a page
+ *
+ * Images and media are matched to the slide whose elements reference them,
+ * since Slidev preloads the assets of upcoming slides.
+ */
+export class AssetMonitor {
+  private failures = new Map<string, AssetFailure>();
+  private unreported: AssetFailure[] = [];
+
+  /**
+   * Start listening before the page navigates, so initial requests are recorded too
+   */
+  constructor(page: Page) {
+    page.on('requestfailed', request => {
+      this.record(request, { error: request.failure()?.errorText ?? 'Request failed' });
+    });
+    page.on('response', response => {
+      if (response.status() >= 400) {
+        this.record(response.request(), { status: response.status() });
+      }
+    });
+  }
+
+  /**
+   * Get failed requests by URL
+   */
+  getFailures(): Record<string, AssetFailure> {
+    return Object.fromEntries(this.failures);
+  }
+
+  /**
+   * Get failed fonts and stylesheets not returned by a previous call
+   */
+  takeGlobalFailures(): AssetFailure[] {
+    const failures = this.unreported;
+    this.unreported = [];
+    return failures;
+  }
+
+  /**
+   * Record a failed request (the first failure of a URL is kept)
+   */
+  private record(request: Request, result: Pick<AssetFailure, 'status' | 'error'>): void {
+    const url = request.url();
+    if (this.failures.has(url) || url.startsWith('data:')) {
+      return;
+    }
+
+    const failure: AssetFailure = { url, resourceType: request.resourceType(), ...result };
+    this.failures.set(url, failure);
+    if (GLOBAL_RESOURCE_TYPES.has(failure.resourceType)) {
+      this.unreported.push(failure);
+    }
+  }
+}
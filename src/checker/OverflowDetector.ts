@@ -4,8 +4,63 @@ import {
   TextOverflowIssue,
   ElementOverflowIssue,
   ScrollbarIssue,
+  ElementOverlapIssue,
+  ClippedContentIssue,
+  TruncatedTextIssue,
+  SafeAreaIssue,
+  SafeAreaInset,
+  BrokenAssetIssue,
+  BlankSlideIssue,
+  LowResolutionImageIssue,
+  OccludedContentIssue,
+  TinyTextIssue,
+  LowContrastIssue,
+  FontFallbackIssue,
+  SlideContentCounts,
+  ExpectedSlideContent,
   DetectionConfig,
 } from '../types';
+import { AssetMonitor } from './AssetMonitor';
+import { installPageHelpers, PageHelperWindow } from './PageHelpers';
+
+/**
+ * Minimum share of the smaller element's area two elements must overlap by
+ */
+const MIN_OVERLAP_RATIO = 0.1;
+
+/**
+ * Style making slide text transparent, so a screenshot shows only what the text is drawn on
+ */
+const HIDE_TEXT_STYLE = `
+.slidev-layout, .slidev-layout * {
+  color: transparent !important;
+  -webkit-text-fill-color: transparent !important;
+  text-shadow: none !important;
+  text-decoration-color: transparent !important;
+  transition: none !important;
+}`;
+
+/**
+ * Parse a safe-area inset given in px (24, "24", "24px") or as a percentage ("5%")
+ */
+export function parseSafeAreaInset(inset: number | string): SafeAreaInset {
+  if (typeof inset === 'number') {
+    if (!(inset >= 0)) {
+      throw new Error(`Invalid safe-area inset: ${inset}`);
+    }
+    return { value: inset, unit: 'px' };
+  }
+
+  const match = inset.trim().match(/^(\d+(?:\.\d+)?)\s*(px|%)?$/);
+  if (!match) {
+    throw new Error(`Invalid safe-area inset: "${inset}" (use px, e.g. 24, or a percentage, e.g. 5%)`);
+  }
+  const value = parseFloat(match[1]);
+  if (match[2] === '%' && value >= 50) {
+    throw new Error(`Invalid safe-area inset: "${inset}" (a percentage must be below 50%)`);
+  }
+  return { value, unit: match[2] === '%' ? '%' : 'px' };
+}
 
 /**
  * Class responsible for overflow detection logic
@@ -13,10 +68,15 @@ import {
 export class OverflowDetector {
   private page: Page;
   private config: DetectionConfig;
+  private assetMonitor?: AssetMonitor;
 
-  constructor(page: Page, config: DetectionConfig) {
+  /**
+   * @param assetMonitor Failed requests of the page (without it, broken images are found by decoding only)
+   */
+  constructor(page: Page, config: DetectionConfig, assetMonitor?: AssetMonitor) {
     this.page = page;
     this.config = config;
+    this.assetMonitor = assetMonitor;
   }
 
   /**
@@ -24,13 +84,14 @@ export class OverflowDetector {
    */
   async detectIssues(): Promise<Issue[]> {
     const issues: Issue[] = [];
+    await installPageHelpers(this.page);
 
     if (this.config.textOverflow) {
       const textIssues = await this.detectTextOverflow();
       issues.push(...textIssues);
     }
 
-    if (this.config.elementOverflow) {
+    if (this.config.elementOverflow || this.config.safeArea) {
       const elementIssues = await this.detectElementOverflow();
       issues.push(...elementIssues);
     }
@@ -40,6 +101,46 @@ export class OverflowDetector {
       issues.push(...scrollbarIssues);
     }
 
+    if (this.config.elementOverlap) {
+      const overlapIssues = await this.detectElementOverlap();
+      issues.push(...overlapIssues);
+    }
+
+    if (this.config.clippedContent) {
+      const clippedIssues = await this.detectClippedContent();
+      issues.push(...clippedIssues);
+    }
+
+    if (this.config.truncatedText) {
+      const truncatedIssues = await this.detectTruncatedText();
+      issues.push(...truncatedIssues);
+    }
+
+    if (this.config.brokenAsset) {
+      const assetIssues = await this.detectBrokenAssets();
+      issues.push(...assetIssues);
+    }
+
+    if (this.config.lowResolutionImage) {
+      const imageIssues = await this.detectLowResolutionImages();
+      issues.push(...imageIssues);
+    }
+
+    if (this.config.occludedContent) {
+      const occludedIssues = await this.detectOccludedContent();
+      issues.push(...occludedIssues);
+    }
+
+    if (this.config.tinyText) {
+      const tinyTextIssues = await this.detectTinyText();
+      issues.push(...tinyTextIssues);
+    }
+
+    if (this.config.lowContrast) {
+      const contrastIssues = await this.detectLowContrast();
+      issues.push(...contrastIssues);
+    }
+
     return issues;
   }
 
@@ -48,36 +149,13 @@ export class OverflowDetector {
    */
   private async detectTextOverflow(): Promise<TextOverflowIssue[]> {
     const issues = await this.page.evaluate(
-      ({ exclude, threshold }) => {
+      ({ exclude, threshold, truncatedText }) => {
         const results: any[] = [];
 
-        // Find the current active slide page
-        let activeSlidePage: Element | null = document.querySelector('.slidev-page.active');
-
-        if (!activeSlidePage) {
-          const urlMatch = window.location.pathname.match(/\/(\d+)/) ||
-                          window.location.hash.match(/#?(\d+)/);
-          if (urlMatch) {
-            const slideNum = parseInt(urlMatch[1], 10);
-            activeSlidePage = document.querySelector(`.slidev-page-${slideNum}`) ||
-                             document.querySelector(`[data-slidev-no="${slideNum}"]`);
-          }
-        }
-
-        if (!activeSlidePage) {
-          const allSlides = document.querySelectorAll('.slidev-page');
-          for (const slide of Array.from(allSlides)) {
-            const rect = slide.getBoundingClientRect();
-            if (rect.width > 0 && rect.height > 0) {
-              activeSlidePage = slide;
-              break;
-            }
-          }
-        }
+        const { findSlideLayout, getElementInfo } = (window as PageHelperWindow).__slidevChecker!;
 
         // Only inspect main content area of slide
-        const slideLayout = activeSlidePage?.querySelector('.slidev-layout') ||
-                           document.querySelector('.slidev-layout');
+        const slideLayout = findSlideLayout();
         if (!slideLayout) return results;
 
         // Get the actual visible content boundary from .slidev-slide-content
@@ -97,6 +175,15 @@ export class OverflowDetector {
           }
 
           const computed = window.getComputedStyle(element);
+
+          // Ellipsis and line-clamp truncation is reported as truncated-text
+          const truncates =
+            computed.textOverflow === 'ellipsis' ||
+            /^\d+$/.test(computed.getPropertyValue('-webkit-line-clamp'));
+          if (truncatedText && truncates) {
+            return;
+          }
+
           const hasOverflowHidden =
             computed.overflow === 'hidden' ||
             computed.overflowX === 'hidden' ||
@@ -142,36 +229,9 @@ export class OverflowDetector {
           // Only report horizontal overflow for text-overflow detection
           // Vertical overflow is handled by element-overflow detection
           if (overflowX > threshold) {
-            // Generate CSS selector
-            let selector = element.tagName.toLowerCase();
-            if (element.id) {
-              selector += `#${element.id}`;
-            } else if (element.className && typeof element.className === 'string') {
-              const classes = element.className.trim().split(/\s+/);
-              if (classes.length > 0 && classes[0]) {
-                selector += `.${classes.join('.')}`;
-              }
-            }
-
-            // Get the actual text content that is overflowing
-            // For better identification, get all direct text content
-            let overflowingText = '';
-            for (const node of Array.from(element.childNodes)) {
-              if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
-                overflowingText += node.textContent.trim() + ' ';
-              }
-            }
-            overflowingText = overflowingText.trim() || element.textContent?.trim() || '';
-
             results.push({
               type: 'text-overflow',
-              element: {
-                tag: element.tagName.toLowerCase(),
-                class: element.className || undefined,
-                id: element.id || undefined,
-                selector,
-                text: overflowingText.substring(0, 100) || undefined,
-              },
+              element: getElementInfo(element, slideLayout),
               details: {
                 containerWidth,
                 containerHeight,
@@ -186,7 +246,11 @@ export class OverflowDetector {
 
         return results;
       },
-      { exclude: this.config.exclude, threshold: this.config.threshold }
+      {
+        exclude: this.config.exclude,
+        threshold: this.config.threshold,
+        truncatedText: this.config.truncatedText,
+      }
     );
 
     return issues as TextOverflowIssue[];
@@ -194,74 +258,20 @@ export class OverflowDetector {
 
   /**
    * Element overflow detection
+   *
+   * Also runs the safe-area check, which measures content against the same
+   * slide bounds shrunk by the safe-area inset.
    */
-  private async detectElementOverflow(): Promise<ElementOverflowIssue[]> {
+  private async detectElementOverflow(): Promise<Array<ElementOverflowIssue | SafeAreaIssue>> {
     const result = await this.page.evaluate(
-      ({ exclude, threshold }) => {
+      ({ exclude, threshold, elementOverflow, safeAreaInset }) => {
         const results: any[] = [];
 
-        // Helper function to check if element is actually visible
-        const isElementVisible = (el: Element): boolean => {
-          const style = window.getComputedStyle(el);
-
-          // Check for hidden visibility
-          if (style.display === 'none') return false;
-          if (style.visibility === 'hidden') return false;
-          if (style.opacity === '0') return false;
-
-          // Check for v-click hidden elements (Slidev specific)
-          if (el.classList.contains('slidev-vclick-hidden')) return false;
-          if (el.closest('.slidev-vclick-hidden')) return false;
-
-          // Check parent visibility recursively (up to 3 levels)
-          let parent = el.parentElement;
-          let depth = 0;
-          while (parent && parent !== document.body && depth < 3) {
-            const parentStyle = window.getComputedStyle(parent);
-            if (parentStyle.opacity === '0') return false;
-            if (parentStyle.visibility === 'hidden') return false;
-            parent = parent.parentElement;
-            depth++;
-          }
-
-          return true;
-        };
-
-        // Find the current active slide page
-        // Priority: 1) .active class, 2) slide number from URL, 3) visible slide, 4) first slide
-        let activeSlidePage: Element | null = document.querySelector('.slidev-page.active');
-
-        if (!activeSlidePage) {
-          // Try to get slide number from URL
-          const urlMatch = window.location.pathname.match(/\/(\d+)/) ||
-                          window.location.hash.match(/#?(\d+)/);
-          if (urlMatch) {
-            const slideNum = parseInt(urlMatch[1], 10);
-            activeSlidePage = document.querySelector(`.slidev-page-${slideNum}`) ||
-                             document.querySelector(`[data-slidev-no="${slideNum}"]`);
-          }
-        }
-
-        if (!activeSlidePage) {
-          // Find the slide that is actually visible (has non-zero dimensions)
-          const allSlides = document.querySelectorAll('.slidev-page');
-          for (const slide of Array.from(allSlides)) {
-            const rect = slide.getBoundingClientRect();
-            if (rect.width > 0 && rect.height > 0) {
-              activeSlidePage = slide;
-              break;
-            }
-          }
-        }
-
-        if (!activeSlidePage) {
-          activeSlidePage = document.querySelector('.slidev-page');
-        }
-
-        if (!activeSlidePage) return results;
+        const { findSlideLayout, isElementVisible, getElementInfo, getContentRect } =
+          (window as PageHelperWindow).__slidevChecker!;
 
-        // Find the layout within the active slide
-        const slideLayout = activeSlidePage.querySelector('.slidev-layout');
+        // Only inspect main content area of slide
+        const slideLayout = findSlideLayout();
         if (!slideLayout) return results;
 
         // Get the actual visible content boundary from .slidev-slide-content
@@ -276,6 +286,25 @@ export class OverflowDetector {
           bottom: slideRect.bottom,
         };
 
+        // Safe area: slide bounds less the inset (px of the slide canvas or % of its size)
+        let safeBounds: typeof slideBounds | null = null;
+        if (safeAreaInset) {
+          const slideElement = (slideContent ?? slideLayout) as HTMLElement;
+          const scale = slideElement.offsetWidth > 0 ? slideRect.width / slideElement.offsetWidth : 1;
+          const insetX = safeAreaInset.unit === '%'
+            ? (slideRect.width * safeAreaInset.value) / 100
+            : safeAreaInset.value * scale;
+          const insetY = safeAreaInset.unit === '%'
+            ? (slideRect.height * safeAreaInset.value) / 100
+            : safeAreaInset.value * scale;
+          safeBounds = {
+            left: slideBounds.left + insetX,
+            top: slideBounds.top + insetY,
+            right: slideBounds.right - insetX,
+            bottom: slideBounds.bottom - insetY,
+          };
+        }
+
         const allElements = slideLayout.querySelectorAll('*');
 
         allElements.forEach((element) => {
@@ -287,7 +316,7 @@ export class OverflowDetector {
           }
 
           // Skip hidden elements (v-click, opacity: 0, etc.)
-          if (!isElementVisible(element)) {
+          if (!isElementVisible(element, slideLayout)) {
             return;
           }
 
@@ -309,52 +338,10 @@ export class OverflowDetector {
             overflowRight > threshold ||
             overflowBottom > threshold;
 
-          if (hasOverflow) {
-            // Generate CSS selector
-            let selector = element.tagName.toLowerCase();
-            if (element.id) {
-              selector += `#${element.id}`;
-            } else if (element.className && typeof element.className === 'string') {
-              const classes = element.className.trim().split(/\s+/);
-              if (classes.length > 0 && classes[0]) {
-                selector += `.${classes.join('.')}`;
-              }
-            }
-
-            // Get text content for better source mapping
-            let textContent = '';
-            // For list items and paragraphs, get direct text content
-            const tagLower = element.tagName.toLowerCase();
-            if (['li', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'td', 'th', 'span', 'strong', 'em'].includes(tagLower)) {
-              // Get direct text nodes first
-              for (const node of Array.from(element.childNodes)) {
-                if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
-                  textContent += node.textContent.trim() + ' ';
-                }
-              }
-              textContent = textContent.trim();
-              // If no direct text, use textContent
-              if (!textContent) {
-                textContent = element.textContent?.trim().substring(0, 100) || '';
-              }
-            }
-
-            const elementInfo: any = {
-              tag: tagLower,
-              class: element.className || undefined,
-              id: element.id || undefined,
-              selector,
-              text: textContent.substring(0, 100) || undefined,
-            };
-
-            // Add src for img elements
-            if (tagLower === 'img') {
-              elementInfo.src = (element as HTMLImageElement).src;
-            }
-
+          if (hasOverflow && elementOverflow) {
             results.push({
               type: 'element-overflow',
-              element: elementInfo,
+              element: getElementInfo(element, slideLayout),
               details: {
                 slideBounds,
                 elementBounds: {
@@ -372,14 +359,58 @@ export class OverflowDetector {
               },
             });
           }
+
+          // Content past the slide edges is element overflow, not a safe-area issue
+          if (!safeBounds || hasOverflow) {
+            return;
+          }
+
+          const container = element.parentElement?.closest('pre, table, svg');
+          if (container && slideLayout.contains(container)) {
+            return;
+          }
+
+          const contentRect = getContentRect(element);
+          if (!contentRect || contentRect.width === 0 || contentRect.height === 0) {
+            return;
+          }
+
+          const intrusion = {
+            left: Math.max(0, safeBounds.left - contentRect.left),
+            top: Math.max(0, safeBounds.top - contentRect.top),
+            right: Math.max(0, contentRect.right - safeBounds.right),
+            bottom: Math.max(0, contentRect.bottom - safeBounds.bottom),
+          };
+
+          if (Object.values(intrusion).some(amount => amount > threshold)) {
+            results.push({
+              type: 'safe-area',
+              element: getElementInfo(element, slideLayout),
+              details: {
+                safeBounds,
+                elementBounds: {
+                  left: contentRect.left,
+                  top: contentRect.top,
+                  right: contentRect.right,
+                  bottom: contentRect.bottom,
+                },
+                intrusion,
+              },
+            });
+          }
         });
 
         return results;
       },
-      { exclude: this.config.exclude, threshold: this.config.threshold }
+      {
+        exclude: this.config.exclude,
+        threshold: this.config.threshold,
+        elementOverflow: this.config.elementOverflow,
+        safeAreaInset: this.config.safeArea ? this.config.safeAreaInset : undefined,
+      }
     );
 
-    return result as ElementOverflowIssue[];
+    return result as Array<ElementOverflowIssue | SafeAreaIssue>;
   }
 
   /**
@@ -389,33 +420,10 @@ export class OverflowDetector {
     const issues = await this.page.evaluate(({ exclude }) => {
       const results: any[] = [];
 
-      // Find the current active slide page
-      let activeSlidePage: Element | null = document.querySelector('.slidev-page.active');
-
-      if (!activeSlidePage) {
-        const urlMatch = window.location.pathname.match(/\/(\d+)/) ||
-                        window.location.hash.match(/#?(\d+)/);
-        if (urlMatch) {
-          const slideNum = parseInt(urlMatch[1], 10);
-          activeSlidePage = document.querySelector(`.slidev-page-${slideNum}`) ||
-                           document.querySelector(`[data-slidev-no="${slideNum}"]`);
-        }
-      }
-
-      if (!activeSlidePage) {
-        const allSlides = document.querySelectorAll('.slidev-page');
-        for (const slide of Array.from(allSlides)) {
-          const rect = slide.getBoundingClientRect();
-          if (rect.width > 0 && rect.height > 0) {
-            activeSlidePage = slide;
-            break;
-          }
-        }
-      }
+      const { findSlideLayout, getElementInfo } = (window as PageHelperWindow).__slidevChecker!;
 
       // Only inspect main content area of slide
-      const slideLayout = activeSlidePage?.querySelector('.slidev-layout') ||
-                         document.querySelector('.slidev-layout');
+      const slideLayout = findSlideLayout();
       if (!slideLayout) return results;
 
       const allElements = slideLayout.querySelectorAll('*');
@@ -450,17 +458,6 @@ export class OverflowDetector {
             scrollbarType = 'horizontal';
           }
 
-          // Generate CSS selector
-          let selector = element.tagName.toLowerCase();
-          if (element.id) {
-            selector += `#${element.id}`;
-          } else if (element.className && typeof element.className === 'string') {
-            const classes = element.className.trim().split(/\s+/);
-            if (classes.length > 0 && classes[0]) {
-              selector += `.${classes.join('.')}`;
-            }
-          }
-
           const overflow =
             scrollbarType === 'vertical'
               ? element.scrollHeight - element.clientHeight
@@ -473,12 +470,7 @@ export class OverflowDetector {
 
           results.push({
             type: 'scrollbar',
-            element: {
-              tag: element.tagName.toLowerCase(),
-              class: element.className || undefined,
-              id: element.id || undefined,
-              selector,
-            },
+            element: getElementInfo(element, slideLayout),
             details: {
               scrollbarType,
               containerWidth: element.clientWidth,
@@ -496,4 +488,1316 @@ export class OverflowDetector {
 
     return issues as ScrollbarIssue[];
   }
+
+  /**
+   * Element overlap detection
+   *
+   * Compares the boxes of visible content (text, media, code blocks, tables)
+   * and reports pairs whose rectangles intersect by more than the threshold
+   * in both directions and by at least MIN_OVERLAP_RATIO of the smaller box.
+   */
+  private async detectElementOverlap(): Promise<ElementOverlapIssue[]> {
+    const issues = await this.page.evaluate(
+      ({ exclude, threshold, minRatio }) => {
+        const results: ElementOverlapIssue[] = [];
+
+        const { findSlideLayout, isElementVisible, getElementInfo, getContentRect } =
+          (window as PageHelperWindow).__slidevChecker!;
+
+        // Only inspect main content area of slide
+        const slideLayout = findSlideLayout();
+        if (!slideLayout) return results;
+
+        // Decorative elements are not content, whatever they cover
+        const isDecorative = (el: Element): boolean => {
+          if (el.closest('[aria-hidden="true"], [role="presentation"], [role="none"]')) return true;
+          return el.tagName === 'IMG' && el.getAttribute('alt') === '';
+        };
+
+        const candidates: Array<{ element: Element; rect: DOMRect }> = [];
+        for (const element of Array.from(slideLayout.querySelectorAll('*'))) {
+          // Skip elements matching exclusion selector
+          if (exclude.some((selector: string) => element.matches(selector) || element.closest(selector))) {
+            continue;
+          }
+
+          // Parts of a box are compared as the box itself
+          const container = element.parentElement?.closest('pre, table, svg');
+          if (container && slideLayout.contains(container)) continue;
+
+          if (isDecorative(element) || !isElementVisible(element, slideLayout)) continue;
+
+          const rect = getContentRect(element);
+          if (!rect || rect.width === 0 || rect.height === 0) continue;
+
+          candidates.push({ element, rect });
+        }
+
+        const reported: Array<[Element, Element]> = [];
+
+        for (let i = 0; i < candidates.length; i++) {
+          for (let j = i + 1; j < candidates.length; j++) {
+            const a = candidates[i];
+            const b = candidates[j];
+
+            // Nested elements are drawn inside each other by design
+            if (a.element.contains(b.element) || b.element.contains(a.element)) continue;
+
+            const left = Math.max(a.rect.left, b.rect.left);
+            const top = Math.max(a.rect.top, b.rect.top);
+            const width = Math.min(a.rect.right, b.rect.right) - left;
+            const height = Math.min(a.rect.bottom, b.rect.bottom) - top;
+            if (width <= threshold || height <= threshold) continue;
+
+            const area = width * height;
+            const smaller = Math.min(
+              a.rect.width * a.rect.height,
+              b.rect.width * b.rect.height
+            );
+            const ratio = area / smaller;
+            if (ratio < minRatio) continue;
+
+            // Report a pair once, at the outermost elements that overlap
+            if (
+              reported.some(
+                ([x, y]) =>
+                  (x.contains(a.element) && y.contains(b.element)) ||
+                  (x.contains(b.element) && y.contains(a.element))
+              )
+            ) {
+              continue;
+            }
+            reported.push([a.element, b.element]);
+
+            // The element hit at the center of the intersection is drawn on top
+            const hit = document.elementFromPoint(left + width / 2, top + height / 2);
+            const [upper, lower] =
+              hit && a.element.contains(hit) && !b.element.contains(hit) ? [a, b] : [b, a];
+
+            const toBounds = (rect: DOMRect) => ({
+              left: rect.left,
+              top: rect.top,
+              right: rect.right,
+              bottom: rect.bottom,
+            });
+
+            results.push({
+              type: 'element-overlap',
+              element: getElementInfo(upper.element, slideLayout),
+              details: {
+                overlappedElement: getElementInfo(lower.element, slideLayout),
+                elementBounds: toBounds(upper.rect),
+                overlappedBounds: toBounds(lower.rect),
+                intersection: {
+                  width: Math.round(width * 100) / 100,
+                  height: Math.round(height * 100) / 100,
+                  area: Math.round(area),
+                  ratio: Math.round(ratio * 100) / 100,
+                },
+              },
+            });
+          }
+        }
+
+        return results;
+      },
+      { exclude: this.config.exclude, threshold: this.config.threshold, minRatio: MIN_OVERLAP_RATIO }
+    );
+
+    return issues as ElementOverlapIssue[];
+  }
+
+  /**
+   * Clipped content detection
+   *
+   * Walks the ancestors of each visible element up to the layout and reports
+   * the nearest one with overflow hidden (or clip) that cuts the element off.
+   * Only the outermost clipped element of each container is reported.
+   */
+  private async detectClippedContent(): Promise<ClippedContentIssue[]> {
+    const issues = await this.page.evaluate(
+      ({ exclude, threshold, truncatedText }) => {
+        const results: ClippedContentIssue[] = [];
+
+        const { findSlideLayout, isElementVisible, getElementInfo } =
+          (window as PageHelperWindow).__slidevChecker!;
+
+        // Only inspect main content area of slide
+        const slideLayout = findSlideLayout();
+        if (!slideLayout) return results;
+
+        const clips = (value: string) => value === 'hidden' || value === 'clip';
+
+        // Clipping box: the container's padding box, in screen px
+        const getClipBox = (container: HTMLElement) => {
+          const rect = container.getBoundingClientRect();
+          const scaleX = container.offsetWidth > 0 ? rect.width / container.offsetWidth : 1;
+          const scaleY = container.offsetHeight > 0 ? rect.height / container.offsetHeight : 1;
+          const left = rect.left + container.clientLeft * scaleX;
+          const top = rect.top + container.clientTop * scaleY;
+          return {
+            left,
+            top,
+            right: left + container.clientWidth * scaleX,
+            bottom: top + container.clientHeight * scaleY,
+          };
+        };
+
+        // Box of an element including text that runs past it (e.g. white-space: nowrap)
+        const getContentBounds = (el: Element) => {
+          const rect = el.getBoundingClientRect();
+          const bounds = { left: rect.left, top: rect.top, right: rect.right, bottom: rect.bottom };
+
+          const hasText = Array.from(el.childNodes).some(
+            node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+          );
+          if (hasText) {
+            const range = document.createRange();
+            range.selectNodeContents(el);
+            const textRect = range.getBoundingClientRect();
+            bounds.left = Math.min(bounds.left, textRect.left);
+            bounds.top = Math.min(bounds.top, textRect.top);
+            bounds.right = Math.max(bounds.right, textRect.right);
+            bounds.bottom = Math.max(bounds.bottom, textRect.bottom);
+          }
+
+          return bounds;
+        };
+
+        const reported = new Map<Element, Element[]>();
+
+        for (const element of Array.from(slideLayout.querySelectorAll('*'))) {
+          // Skip elements matching exclusion selector
+          if (exclude.some((selector: string) => element.matches(selector) || element.closest(selector))) {
+            continue;
+          }
+
+          if (!isElementVisible(element, slideLayout)) continue;
+
+          const style = window.getComputedStyle(element);
+          if (style.position === 'fixed') continue;
+
+          const bounds = getContentBounds(element);
+          if (bounds.right - bounds.left === 0 && bounds.bottom - bounds.top === 0) continue;
+
+          // Absolutely positioned elements escape containers outside their containing block
+          const containingBlock =
+            style.position === 'absolute' ? (element as HTMLElement).offsetParent : null;
+
+          let container = element.parentElement;
+          while (container && container !== slideLayout && slideLayout.contains(container)) {
+            const containerStyle = window.getComputedStyle(container);
+            const clipsX = clips(containerStyle.overflowX);
+            const clipsY = clips(containerStyle.overflowY);
+            const escapes =
+              containingBlock !== null &&
+              container !== containingBlock &&
+              !container.contains(containingBlock);
+            // Text cut off by ellipsis or line-clamp is reported as truncated-text
+            const truncates =
+              truncatedText &&
+              (containerStyle.textOverflow === 'ellipsis' ||
+                /^\d+$/.test(containerStyle.getPropertyValue('-webkit-line-clamp')));
+
+            if ((clipsX || clipsY) && !escapes && !truncates) {
+              const box = getClipBox(container);
+              const width = bounds.right - bounds.left;
+              const height = bounds.bottom - bounds.top;
+              const hidden = {
+                left: clipsX ? Math.min(width, Math.max(0, box.left - bounds.left)) : 0,
+                top: clipsY ? Math.min(height, Math.max(0, box.top - bounds.top)) : 0,
+                right: clipsX ? Math.min(width, Math.max(0, bounds.right - box.right)) : 0,
+                bottom: clipsY ? Math.min(height, Math.max(0, bounds.bottom - box.bottom)) : 0,
+              };
+
+              if (Object.values(hidden).some(amount => amount > threshold)) {
+                // Descendants of a reported element are clipped along with it
+                const siblings = reported.get(container) ?? [];
+                if (!siblings.some(other => other.contains(element))) {
+                  siblings.push(element);
+                  reported.set(container, siblings);
+
+                  results.push({
+                    type: 'clipped-content',
+                    element: getElementInfo(element, slideLayout),
+                    details: {
+                      container: getElementInfo(container, slideLayout),
+                      containerBounds: box,
+                      elementBounds: bounds,
+                      hidden,
+                    },
+                  });
+                }
+                break;
+              }
+            }
+
+            container = container.parentElement;
+          }
+        }
+
+        return results;
+      },
+      {
+        exclude: this.config.exclude,
+        threshold: this.config.threshold,
+        truncatedText: this.config.truncatedText,
+      }
+    );
+
+    return issues as ClippedContentIssue[];
+  }
+
+  /**
+   * Truncated text detection
+   *
+   * Reports text shortened by `text-overflow: ellipsis` or `-webkit-line-clamp`,
+   * with the full and visible text. Clamped text is laid out again in a hidden
+   * unclamped copy to count the lines it would take.
+   */
+  private async detectTruncatedText(): Promise<TruncatedTextIssue[]> {
+    const issues = await this.page.evaluate(
+      ({ exclude, threshold }) => {
+        const results: TruncatedTextIssue[] = [];
+
+        const { findSlideLayout, isElementVisible, getElementInfo } =
+          (window as PageHelperWindow).__slidevChecker!;
+
+        // Only inspect main content area of slide
+        const slideLayout = findSlideLayout();
+        if (!slideLayout) return results;
+
+        // Characters of an element's text with the box each one is drawn in
+        const MAX_CHARACTERS = 5000;
+        const getCharacters = (el: Element) => {
+          const characters: Array<{ char: string; rect: DOMRect | null }> = [];
+          const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+          const range = document.createRange();
+
+          for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+            const text = node.textContent ?? '';
+            for (let i = 0; i < text.length && characters.length < MAX_CHARACTERS; i++) {
+              range.setStart(node, i);
+              range.setEnd(node, i + 1);
+              const rect = range.getClientRects()[0] ?? null;
+              characters.push({ char: text[i], rect: rect && rect.width > 0 ? rect : null });
+            }
+          }
+
+          return characters;
+        };
+
+        // Collapsed text of characters, the way it is rendered
+        const toText = (characters: Array<{ char: string }>) =>
+          characters.map(c => c.char).join('').replace(/\s+/g, ' ').trim();
+
+        // Line index of each character (whitespace without a box stays on the current line)
+        const getLineIndexes = (characters: Array<{ rect: DOMRect | null }>) => {
+          let line = -1;
+          let lineBottom = -Infinity;
+          return characters.map(({ rect }) => {
+            if (rect) {
+              if (rect.top >= lineBottom - 1) {
+                line++;
+                lineBottom = rect.bottom;
+              } else {
+                lineBottom = Math.max(lineBottom, rect.bottom);
+              }
+            }
+            return Math.max(line, 0);
+          });
+        };
+
+        for (const element of Array.from(slideLayout.querySelectorAll<HTMLElement>('*'))) {
+          // Skip elements matching exclusion selector
+          if (exclude.some((selector: string) => element.matches(selector) || element.closest(selector))) {
+            continue;
+          }
+
+          const style = window.getComputedStyle(element);
+          const lineClamp = style.getPropertyValue('-webkit-line-clamp');
+          const clamped = /^\d+$/.test(lineClamp);
+          const ellipsis =
+            style.textOverflow === 'ellipsis' &&
+            (style.overflowX === 'hidden' || style.overflowX === 'clip');
+          if (!clamped && !ellipsis) continue;
+          if (!element.textContent?.trim() || !isElementVisible(element, slideLayout)) continue;
+
+          if (clamped) {
+            // Lay out an unclamped copy at the same width to count the full lines
+            const copy = element.cloneNode(true) as HTMLElement;
+            copy.removeAttribute('id');
+            copy.style.setProperty('-webkit-line-clamp', 'none');
+            copy.style.display = 'block';
+            copy.style.overflow = 'visible';
+            copy.style.height = 'auto';
+            copy.style.maxHeight = 'none';
+            copy.style.width = style.width;
+            copy.style.position = 'absolute';
+            copy.style.visibility = 'hidden';
+            copy.style.pointerEvents = 'none';
+            (element.parentElement ?? slideLayout).appendChild(copy);
+
+            const characters = getCharacters(copy);
+            const heightDiff = copy.scrollHeight - element.clientHeight;
+            copy.remove();
+
+            const lines = getLineIndexes(characters);
+            const totalLines = characters.some(c => c.rect) ? Math.max(...lines) + 1 : 0;
+            const visibleLines = Math.min(parseInt(lineClamp, 10), totalLines);
+            if (totalLines <= visibleLines || heightDiff <= threshold) continue;
+
+            const fullText = toText(characters);
+            const visibleText = toText(characters.filter((_, i) => lines[i] < visibleLines));
+            results.push({
+              type: 'truncated-text',
+              element: getElementInfo(element, slideLayout, {
+                text: fullText.substring(0, 100) || undefined,
+              }),
+              details: {
+                truncation: 'line-clamp',
+                fullText,
+                visibleText,
+                hiddenCharacters: fullText.length - visibleText.length,
+                totalLines,
+                visibleLines,
+                hiddenLines: totalLines - visibleLines,
+              },
+            });
+            continue;
+          }
+
+          if (element.scrollWidth - element.clientWidth <= threshold) continue;
+
+          // Characters past the right edge, less the room taken by the ellipsis
+          const rect = element.getBoundingClientRect();
+          const scale = element.offsetWidth > 0 ? rect.width / element.offsetWidth : 1;
+          const canvas = document.createElement('canvas').getContext('2d');
+          let ellipsisWidth = 0;
+          if (canvas) {
+            canvas.font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+            ellipsisWidth = canvas.measureText('…').width * scale;
+          }
+          const clipRight =
+            rect.left + (element.clientLeft + element.clientWidth) * scale -
+            (parseFloat(style.paddingRight) || 0) * scale - ellipsisWidth;
+
+          const characters = getCharacters(element);
+          let visible = true;
+          const visibleCharacters = characters.filter(({ rect: charRect }) => {
+            if (charRect) {
+              visible = visible && charRect.right <= clipRight + 0.5;
+            }
+            return visible;
+          });
+
+          const fullText = toText(characters);
+          const visibleText = toText(visibleCharacters);
+          if (visibleText === fullText) continue;
+
+          results.push({
+            type: 'truncated-text',
+            element: getElementInfo(element, slideLayout, {
+              text: fullText.substring(0, 100) || undefined,
+            }),
+            details: {
+              truncation: 'ellipsis',
+              fullText,
+              visibleText,
+              hiddenCharacters: fullText.length - visibleText.length,
+              totalLines: 1,
+              visibleLines: 1,
+              hiddenLines: 0,
+            },
+          });
+        }
+
+        return results;
+      },
+      { exclude: this.config.exclude, threshold: this.config.threshold }
+    );
+
+    return issues as TruncatedTextIssue[];
+  }
+
+  /**
+   * Broken asset detection
+   *
+   * Reports images, media and CSS backgrounds on the slide whose request
+   * failed, and images that loaded but could not be decoded. Failed fonts and
+   * stylesheets are reported on the first slide checked after they failed.
+   */
+  private async detectBrokenAssets(): Promise<BrokenAssetIssue[]> {
+    const issues = await this.page.evaluate(
+      async ({ exclude, failures }) => {
+        const results: BrokenAssetIssue[] = [];
+
+        const { findSlideLayout, getElementInfo } = (window as PageHelperWindow).__slidevChecker!;
+
+        // Only inspect main content area of slide (the layout itself may have a background)
+        const slideLayout = findSlideLayout();
+        if (!slideLayout) return results;
+
+        const report = (el: Element, url: string, resourceType: string, decodeFailed = false) => {
+          const failure = failures[url];
+          if (!failure && !decodeFailed) return;
+
+          results.push({
+            type: 'broken-asset',
+            element: getElementInfo(el, slideLayout, {
+              text: el.getAttribute('alt') || undefined,
+              src: url,
+            }),
+            details: {
+              url,
+              reason: failure
+                ? failure.status !== undefined ? 'http-error' : 'request-failed'
+                : 'decode-failed',
+              resourceType,
+              status: failure?.status,
+              error: failure?.error,
+            },
+          });
+        };
+
+        const elements = [slideLayout, ...Array.from(slideLayout.querySelectorAll('*'))];
+
+        for (const element of elements) {
+          // Skip elements matching exclusion selector
+          if (exclude.some((selector: string) => element.matches(selector) || element.closest(selector))) {
+            continue;
+          }
+
+          if (element instanceof HTMLImageElement) {
+            const url = element.currentSrc || element.src;
+            if (!url) continue;
+
+            // Loaded images without a size failed to load or decode
+            let decodeFailed = false;
+            if (!failures[url] && element.complete && element.naturalWidth === 0) {
+              decodeFailed = await element.decode().then(() => false, () => true);
+            }
+            report(element, url, 'image', decodeFailed);
+            continue;
+          }
+
+          if (element instanceof HTMLMediaElement) {
+            const url = element.currentSrc || element.src;
+            if (url) report(element, url, 'media', element.error !== null);
+            continue;
+          }
+
+          if (element instanceof HTMLSourceElement || element instanceof HTMLIFrameElement) {
+            if (element.src) report(element, element.src, 'media');
+            continue;
+          }
+
+          const background = window.getComputedStyle(element).backgroundImage;
+          for (const match of background.matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+            report(element, new URL(match[1], document.baseURI).href, 'background');
+          }
+        }
+
+        return results;
+      },
+      { exclude: this.config.exclude, failures: this.assetMonitor?.getFailures() ?? {} }
+    );
+
+    // Fonts and stylesheets are not referenced by slide elements
+    for (const failure of this.assetMonitor?.takeGlobalFailures() ?? []) {
+      issues.push({
+        type: 'broken-asset',
+        element: { tag: failure.resourceType, selector: failure.url, src: failure.url },
+        details: {
+          url: failure.url,
+          reason: failure.status !== undefined ? 'http-error' : 'request-failed',
+          resourceType: failure.resourceType,
+          status: failure.status,
+          error: failure.error,
+        },
+      });
+    }
+
+    return issues as BrokenAssetIssue[];
+  }
+
+  /**
+   * Low-resolution image detection
+   *
+   * Compares the native size of raster images with the size they are drawn at
+   * in device pixels (object-fit is taken into account). Vector images are skipped.
+   */
+  private async detectLowResolutionImages(): Promise<LowResolutionImageIssue[]> {
+    return this.page.evaluate(
+      ({ exclude, maxUpscale }) => {
+        const results: LowResolutionImageIssue[] = [];
+
+        const { findSlideLayout, isElementVisible, getElementInfo } =
+          (window as PageHelperWindow).__slidevChecker!;
+
+        // Only inspect main content area of slide
+        const slideLayout = findSlideLayout();
+        if (!slideLayout) return results;
+
+        for (const image of Array.from(slideLayout.querySelectorAll('img'))) {
+          // Skip elements matching exclusion selector
+          if (exclude.some((selector: string) => image.matches(selector) || image.closest(selector))) {
+            continue;
+          }
+
+          const url = image.currentSrc || image.src;
+          // Images that failed to load are broken-asset issues, vector images scale freely
+          if (!url || image.naturalWidth === 0 || image.naturalHeight === 0) continue;
+          if (/^data:image\/svg|\.svg(?:[?#]|$)/i.test(url)) continue;
+          if (!isElementVisible(image, slideLayout)) continue;
+
+          const rect = image.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) continue;
+
+          // Size of the picture drawn inside the element box
+          const scaleX = rect.width / image.naturalWidth;
+          const scaleY = rect.height / image.naturalHeight;
+          const objectFit = window.getComputedStyle(image).objectFit;
+          let scale: number;
+          if (objectFit === 'contain') {
+            scale = Math.min(scaleX, scaleY);
+          } else if (objectFit === 'scale-down') {
+            scale = Math.min(1, scaleX, scaleY);
+          } else if (objectFit === 'none') {
+            scale = 1;
+          } else {
+            // fill stretches each axis, cover fills the larger one
+            scale = Math.max(scaleX, scaleY);
+          }
+
+          const upscale = scale * window.devicePixelRatio;
+          if (upscale <= maxUpscale) continue;
+
+          results.push({
+            type: 'low-resolution-image',
+            element: getElementInfo(image, slideLayout, {
+              text: image.alt || undefined,
+              src: url,
+            }),
+            details: {
+              naturalWidth: image.naturalWidth,
+              naturalHeight: image.naturalHeight,
+              renderedWidth: Math.round(rect.width * window.devicePixelRatio),
+              renderedHeight: Math.round(rect.height * window.devicePixelRatio),
+              upscale: Math.round(upscale * 100) / 100,
+              maxUpscale,
+            },
+          });
+        }
+
+        return results;
+      },
+      { exclude: this.config.exclude, maxUpscale: this.config.maxImageUpscale }
+    );
+  }
+
+  /**
+   * Occluded content detection
+   *
+   * Global layers are the elements rendered next to the slides inside the
+   * slide canvas (`#slide-content`): those before the slides come from
+   * global-bottom.vue, those after from global-top.vue. Slide text is reported
+   * where its lines intersect what a layer draws (text, media or backgrounds;
+   * only text for the bottom layer, which is drawn beneath the slide) or the
+   * box of a configured overlay.
+   */
+  private async detectOccludedContent(): Promise<OccludedContentIssue[]> {
+    const issues = await this.page.evaluate(
+      ({ exclude, threshold, overlays }) => {
+        const results: OccludedContentIssue[] = [];
+
+        const { findActiveSlide, isElementVisible, getElementInfo } =
+          (window as PageHelperWindow).__slidevChecker!;
+
+        const activeSlidePage = findActiveSlide();
+
+        // Only inspect main content area of slide
+        const slideLayout = activeSlidePage?.querySelector('.slidev-layout') ||
+                           document.querySelector('.slidev-layout');
+        if (!slideLayout) return results;
+
+        const isExcluded = (el: Element) =>
+          exclude.some((selector: string) => el.matches(selector) || el.closest(selector));
+
+        type Layer = OccludedContentIssue['details']['layer'];
+        const areas: Array<{ element: Element; rect: DOMRect; layer: Layer }> = [];
+
+        // Rectangles a global layer draws (its root is often a full-size wrapper)
+        const addPaintedAreas = (element: Element, layer: Layer) => {
+          const style = window.getComputedStyle(element);
+          if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') return;
+          if (isExcluded(element)) return;
+
+          if (layer === 'global-top') {
+            // Empty SVGs (e.g. a drawing layer) draw nothing
+            const isSvg = element.tagName.toLowerCase() === 'svg';
+            const isMedia = element.matches('img, video, canvas, iframe, object') ||
+              (isSvg && element.childElementCount > 0);
+            const hasBackground = style.backgroundImage !== 'none' ||
+              !/^(transparent|rgba\(.*,\s*0\))$/.test(style.backgroundColor);
+            if (isMedia || hasBackground) {
+              areas.push({ element, rect: element.getBoundingClientRect(), layer });
+            }
+            // Shapes inside an SVG are drawn within its box
+            if (isSvg) return;
+          }
+
+          for (const child of Array.from(element.childNodes)) {
+            if (child instanceof Element) {
+              addPaintedAreas(child, layer);
+            } else if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
+              const range = document.createRange();
+              range.selectNodeContents(child);
+              for (const rect of Array.from(range.getClientRects())) {
+                areas.push({ element, rect, layer });
+              }
+            }
+          }
+        };
+
+        // Global layers: siblings of the slide (and its wrappers) inside the slide canvas
+        const canvas = activeSlidePage?.closest('#slide-content') ?? document.body;
+        let current: Element | null | undefined = activeSlidePage;
+        while (current && current !== canvas && current.parentElement) {
+          let layer: Layer = 'global-bottom';
+          for (const sibling of Array.from(current.parentElement.children)) {
+            if (sibling === current) {
+              layer = 'global-top';
+              continue;
+            }
+            if (sibling.matches('.slidev-page') || sibling.querySelector('.slidev-page')) continue;
+            if (sibling.matches('script, style, template')) continue;
+            addPaintedAreas(sibling, layer);
+          }
+          current = current.parentElement;
+        }
+
+        // Configured overlays count by their box
+        for (const selector of overlays) {
+          for (const element of Array.from(document.querySelectorAll(selector))) {
+            if (slideLayout.contains(element) || !isElementVisible(element, null)) continue;
+            areas.push({ element, rect: element.getBoundingClientRect(), layer: 'overlay' });
+          }
+        }
+
+        const visibleAreas = areas.filter(area => area.rect.width > 0 && area.rect.height > 0);
+        if (visibleAreas.length === 0) return results;
+
+        // Slide text, grouped by the block it flows in
+        const lines = new Map<Element, DOMRect[]>();
+        const walker = document.createTreeWalker(slideLayout, NodeFilter.SHOW_TEXT);
+        while (walker.nextNode()) {
+          const parent = walker.currentNode.parentElement;
+          if (!parent || !walker.currentNode.textContent?.trim()) continue;
+          if (isExcluded(parent) || !isElementVisible(parent, slideLayout)) continue;
+
+          let block: Element = parent;
+          while (
+            block !== slideLayout &&
+            block.parentElement &&
+            ['inline', 'contents'].includes(window.getComputedStyle(block).display)
+          ) {
+            block = block.parentElement;
+          }
+
+          const range = document.createRange();
+          range.selectNodeContents(walker.currentNode);
+          const rects = Array.from(range.getClientRects()).filter(rect => rect.width > 0 && rect.height > 0);
+          lines.set(block, [...(lines.get(block) ?? []), ...rects]);
+        }
+
+        const toBounds = (rect: { left: number; top: number; right: number; bottom: number }) => ({
+          left: rect.left,
+          top: rect.top,
+          right: rect.right,
+          bottom: rect.bottom,
+        });
+
+        for (const [block, rects] of lines) {
+          // Largest intersection of a line with a layer area
+          let best: { area: (typeof visibleAreas)[number]; width: number; height: number } | null = null;
+          for (const rect of rects) {
+            for (const area of visibleAreas) {
+              const width = Math.min(rect.right, area.rect.right) - Math.max(rect.left, area.rect.left);
+              const height = Math.min(rect.bottom, area.rect.bottom) - Math.max(rect.top, area.rect.top);
+              if (width <= threshold || height <= threshold) continue;
+              if (!best || width * height > best.width * best.height) {
+                best = { area, width, height };
+              }
+            }
+          }
+          if (!best) continue;
+
+          const elementBounds = {
+            left: Math.min(...rects.map(rect => rect.left)),
+            top: Math.min(...rects.map(rect => rect.top)),
+            right: Math.max(...rects.map(rect => rect.right)),
+            bottom: Math.max(...rects.map(rect => rect.bottom)),
+          };
+
+          results.push({
+            type: 'occluded-content',
+            element: getElementInfo(block, slideLayout),
+            details: {
+              overlay: getElementInfo(best.area.element, slideLayout),
+              layer: best.area.layer,
+              elementBounds: toBounds(elementBounds),
+              overlayBounds: toBounds(best.area.rect),
+              intersection: {
+                width: Math.round(best.width * 100) / 100,
+                height: Math.round(best.height * 100) / 100,
+              },
+            },
+          });
+        }
+
+        return results;
+      },
+      { exclude: this.config.exclude, threshold: this.config.threshold, overlays: this.config.overlays }
+    );
+
+    return issues as OccludedContentIssue[];
+  }
+
+  /**
+   * Tiny text detection
+   *
+   * The font size is converted to slide canvas px with the scale between the
+   * element and the canvas, so `zoom:` frontmatter and transforms count, while
+   * the viewport fitting the canvas does not. Code blocks are reported as a
+   * whole, and nested text only when its size differs from the reported ancestor.
+   */
+  private async detectTinyText(): Promise<TinyTextIssue[]> {
+    const issues = await this.page.evaluate(
+      ({ exclude, minFontSize }) => {
+        const results: TinyTextIssue[] = [];
+
+        const { findActiveSlide, isElementVisible, getElementInfo } =
+          (window as PageHelperWindow).__slidevChecker!;
+
+        const activeSlidePage = findActiveSlide();
+
+        // Only inspect main content area of slide
+        const slideLayout = activeSlidePage?.querySelector('.slidev-layout') ||
+                           document.querySelector('.slidev-layout');
+        if (!slideLayout) return results;
+
+        // Scale of the slide canvas on screen (the viewport fit)
+        const canvas = (document.querySelector('#slide-content') ?? activeSlidePage ?? slideLayout) as HTMLElement;
+        const canvasScale = canvas.offsetWidth > 0
+          ? canvas.getBoundingClientRect().width / canvas.offsetWidth
+          : 1;
+
+        // Effective font size of reported elements
+        const reported = new Map<Element, number>();
+
+        for (const element of Array.from(slideLayout.querySelectorAll('*'))) {
+          // Only HTML elements holding text (diagram labels in SVG scale with the diagram)
+          if (!(element instanceof HTMLElement) || element.closest('svg')) continue;
+          const holdsText = Array.from(element.childNodes).some(
+            node => node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim()
+          );
+          if (!holdsText) continue;
+
+          // Skip elements matching exclusion selector
+          if (exclude.some((selector: string) => element.matches(selector) || element.closest(selector))) {
+            continue;
+          }
+          if (element.closest('[aria-hidden="true"]') || !isElementVisible(element, slideLayout)) continue;
+
+          const rect = element.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) continue;
+
+          // Scale from the element to the screen, relative to the canvas scale
+          const elementScale = element.offsetWidth > 0
+            ? rect.width / element.offsetWidth
+            : element.offsetHeight > 0 ? rect.height / element.offsetHeight : canvasScale;
+          const scale = elementScale / canvasScale;
+          const cssFontSize = parseFloat(window.getComputedStyle(element).fontSize);
+          const fontSize = Math.round(cssFontSize * scale * 100) / 100;
+          if (!(fontSize < minFontSize)) continue;
+
+          // A code block is reported once, as the block
+          const pre = element.closest('pre');
+          const unit: HTMLElement = pre && slideLayout.contains(pre) ? pre : element;
+          if (reported.has(unit)) continue;
+
+          // Nested text the size of a reported ancestor is part of it
+          let ancestor = unit.parentElement;
+          let covered = false;
+          while (ancestor && ancestor !== slideLayout) {
+            const size = reported.get(ancestor);
+            if (size !== undefined && Math.abs(size - fontSize) < 0.5) {
+              covered = true;
+              break;
+            }
+            ancestor = ancestor.parentElement;
+          }
+          if (covered) continue;
+          reported.set(unit, fontSize);
+
+          results.push({
+            type: 'tiny-text',
+            element: getElementInfo(unit, slideLayout),
+            details: {
+              fontSize,
+              cssFontSize,
+              scale: Math.round(scale * 1000) / 1000,
+              minFontSize,
+            },
+          });
+        }
+
+        return results;
+      },
+      { exclude: this.config.exclude, minFontSize: this.config.minFontSize ?? 12 }
+    );
+
+    return issues as TinyTextIssue[];
+  }
+
+  /**
+   * Low contrast detection
+   *
+   * The background of a text element is its ancestors' background colours
+   * composited up to the first opaque one. When an image or gradient is
+   * behind the text, the background is instead averaged from a screenshot
+   * taken with the slide text made transparent. Code blocks are reported
+   * once, and nested text only when its colours differ from the reported ancestor.
+   */
+  private async detectLowContrast(): Promise<LowContrastIssue[]> {
+    // Images and gradients can only be measured on the rendered page
+    const hasBackgroundImages = await this.page.evaluate(() => {
+      const slideLayout = (window as PageHelperWindow).__slidevChecker!.findSlideLayout();
+      if (!slideLayout) return false;
+
+      const elements: Element[] = Array.from(slideLayout.querySelectorAll('*'));
+      for (let el: Element | null = slideLayout; el; el = el.parentElement) {
+        elements.push(el);
+      }
+      return elements.some(el => window.getComputedStyle(el).backgroundImage !== 'none');
+    });
+
+    let screenshot: string | null = null;
+    if (hasBackgroundImages) {
+      const style = await this.page.addStyleTag({ content: HIDE_TEXT_STYLE });
+      try {
+        const image = await this.page.screenshot({ scale: 'css' });
+        screenshot = `data:image/png;base64,${image.toString('base64')}`;
+      } finally {
+        await style.evaluate(node => (node as Element).remove());
+      }
+    }
+
+    const issues = await this.page.evaluate(
+      async ({ exclude, minContrast, screenshot }) => {
+        const results: LowContrastIssue[] = [];
+
+        const { findSlideLayout, isElementVisible, getElementInfo } =
+          (window as PageHelperWindow).__slidevChecker!;
+
+        // Only inspect main content area of slide
+        const slideLayout = findSlideLayout();
+        if (!slideLayout) return results;
+
+        type Color = { r: number; g: number; b: number; a: number };
+
+        // Any CSS colour (rgb, hsl, oklch, ...) through a 1×1 canvas
+        const colorCanvas = document.createElement('canvas');
+        colorCanvas.width = 1;
+        colorCanvas.height = 1;
+        const colorContext = colorCanvas.getContext('2d', { willReadFrequently: true })!;
+        const parseColor = (value: string): Color => {
+          colorContext.clearRect(0, 0, 1, 1);
+          colorContext.fillStyle = value;
+          colorContext.fillRect(0, 0, 1, 1);
+          const [r, g, b, a] = Array.from(colorContext.getImageData(0, 0, 1, 1).data);
+          return { r, g, b, a: a / 255 };
+        };
+
+        // Color drawn over another with its alpha
+        const composite = (top: Color, bottom: Color): Color => ({
+          r: top.r * top.a + bottom.r * (1 - top.a),
+          g: top.g * top.a + bottom.g * (1 - top.a),
+          b: top.b * top.a + bottom.b * (1 - top.a),
+          a: 1,
+        });
+
+        // WCAG relative luminance and contrast ratio
+        const luminance = (color: Color) => {
+          const channel = (value: number) => {
+            const c = value / 255;
+            return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+          };
+          return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+        };
+        const contrast = (a: Color, b: Color) => {
+          const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+          return (light + 0.05) / (dark + 0.05);
+        };
+
+        const toHex = (color: Color) =>
+          '#' + [color.r, color.g, color.b]
+            .map(value => Math.round(value).toString(16).padStart(2, '0'))
+            .join('');
+
+        // Pixels of the screenshot (CSS px of the viewport)
+        let pixels: ImageData | null = null;
+        if (screenshot) {
+          const image = new Image();
+          image.src = screenshot;
+          await image.decode();
+          const canvas = document.createElement('canvas');
+          canvas.width = image.width;
+          canvas.height = image.height;
+          const context = canvas.getContext('2d')!;
+          context.drawImage(image, 0, 0);
+          pixels = context.getImageData(0, 0, image.width, image.height);
+        }
+
+        // Average colour of the screenshot over a box (sampled on a grid)
+        const sampleBackground = (rect: DOMRect): Color | null => {
+          if (!pixels) return null;
+          const steps = 10;
+          let r = 0, g = 0, b = 0, count = 0;
+          for (let i = 0; i < steps; i++) {
+            for (let j = 0; j < steps; j++) {
+              const x = Math.floor(rect.left + ((i + 0.5) * rect.width) / steps);
+              const y = Math.floor(rect.top + ((j + 0.5) * rect.height) / steps);
+              if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) continue;
+              const offset = (y * pixels.width + x) * 4;
+              r += pixels.data[offset];
+              g += pixels.data[offset + 1];
+              b += pixels.data[offset + 2];
+              count++;
+            }
+          }
+          return count > 0 ? { r: r / count, g: g / count, b: b / count, a: 1 } : null;
+        };
+
+        // Background colours composited up the ancestors (null if an image or gradient is reached first)
+        const getBackground = (el: Element): Color | null => {
+          const layers: Color[] = [];
+          for (let current: Element | null = el; current; current = current.parentElement) {
+            const style = window.getComputedStyle(current);
+            if (style.backgroundImage !== 'none') return null;
+            const color = parseColor(style.backgroundColor);
+            if (color.a > 0) layers.push(color);
+            if (color.a >= 1) break;
+          }
+          // The page itself is white
+          return layers.reduceRight(
+            (bottom, top) => composite(top, bottom),
+            { r: 255, g: 255, b: 255, a: 1 } as Color
+          );
+        };
+
+        // Colours of reported elements
+        const reported = new Map<Element, string>();
+
+        for (const element of Array.from(slideLayout.querySelectorAll('*'))) {
+          if (!(element instanceof HTMLElement) || element.closest('svg')) continue;
+          const holdsText = Array.from(element.childNodes).some(
+            node => node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim()
+          );
+          if (!holdsText) continue;
+
+          // Skip elements matching exclusion selector
+          if (exclude.some((selector: string) => element.matches(selector) || element.closest(selector))) {
+            continue;
+          }
+          if (element.closest('[aria-hidden="true"]') || !isElementVisible(element, slideLayout)) continue;
+
+          const range = document.createRange();
+          range.selectNodeContents(element);
+          const textRect = range.getBoundingClientRect();
+          if (textRect.width === 0 || textRect.height === 0) continue;
+
+          // Text painted with a background (background-clip: text) has no colour of its own
+          const style = window.getComputedStyle(element);
+          if (style.backgroundClip === 'text' || style.getPropertyValue('-webkit-background-clip') === 'text') {
+            continue;
+          }
+
+          const color = parseColor(style.webkitTextFillColor || style.color);
+          let opacity = 1;
+          for (let current: Element | null = element; current; current = current.parentElement) {
+            opacity *= parseFloat(window.getComputedStyle(current).opacity);
+          }
+          if (color.a * opacity === 0) continue;
+
+          const solidBackground = getBackground(element);
+          const background = solidBackground ?? sampleBackground(textRect);
+          if (!background) continue;
+
+          const foreground = composite({ ...color, a: color.a * opacity }, background);
+          const ratio = Math.round(contrast(foreground, background) * 100) / 100;
+          if (!(ratio < minContrast)) continue;
+
+          // A code block is reported once, as the block
+          const pre = element.closest('pre');
+          const unit: HTMLElement = pre && slideLayout.contains(pre) ? pre : element;
+          if (reported.has(unit)) continue;
+
+          // Nested text in the colours of a reported ancestor is part of it
+          const colors = `${toHex(foreground)}|${toHex(background)}`;
+          let covered = false;
+          for (let ancestor = unit.parentElement; ancestor && ancestor !== slideLayout; ancestor = ancestor.parentElement) {
+            if (reported.get(ancestor) === colors) {
+              covered = true;
+              break;
+            }
+          }
+          if (covered) continue;
+          reported.set(unit, colors);
+
+          results.push({
+            type: 'low-contrast',
+            element: getElementInfo(unit, slideLayout),
+            details: {
+              foreground: toHex(foreground),
+              background: toHex(background),
+              backgroundSampled: !solidBackground,
+              ratio,
+              minContrast,
+            },
+          });
+        }
+
+        return results;
+      },
+      { exclude: this.config.exclude, minContrast: this.config.minContrast ?? 4.5, screenshot }
+    );
+
+    return issues as LowContrastIssue[];
+  }
+
+  /**
+   * Blank slide detection
+   *
+   * Meant to run once all clicks of the slide are revealed. Reports a slide
+   * without visible text or media, and (given the Markdown source) a slide
+   * that renders fewer headings, lists, code blocks, images or tables than
+   * its source contains.
+   *
+   * @param expected Content of the slide's Markdown (a slide whose source is empty is not reported)
+   */
+  async detectBlankSlide(expected?: ExpectedSlideContent | null): Promise<BlankSlideIssue | null> {
+    await installPageHelpers(this.page);
+    const { element, rendered, empty } = await this.page.evaluate(({ exclude }) => {
+      const { findActiveSlide, isElementVisible } = (window as PageHelperWindow).__slidevChecker!;
+
+      const activeSlidePage = findActiveSlide();
+
+      // A slide whose layout failed to render may have no .slidev-layout at all
+      const slideLayout = activeSlidePage?.querySelector('.slidev-layout') ||
+                         document.querySelector('.slidev-layout');
+      const root = slideLayout ?? activeSlidePage;
+
+      const rendered: SlideContentCounts = { headings: 0, lists: 0, codeBlocks: 0, images: 0, tables: 0 };
+      const element = root
+        ? {
+            tag: root.tagName.toLowerCase(),
+            class: (typeof root.className === 'string' && root.className) || undefined,
+            selector: slideLayout ? '.slidev-layout' : '.slidev-page',
+          }
+        : { tag: 'div', selector: '.slidev-page' };
+      if (!root) {
+        return { element, rendered, empty: true };
+      }
+
+      // Hidden by style up to the slide (size is not checked, so broken images still count)
+      const isCounted = (el: Element) =>
+        !exclude.some((selector: string) => el.matches(selector) || el.closest(selector)) &&
+        isElementVisible(el, root.parentElement);
+
+      const count = (selector: string, filter: (el: Element) => boolean = () => true) =>
+        Array.from(root.querySelectorAll(selector)).filter(el => filter(el) && isCounted(el)).length;
+
+      rendered.headings = count('h1, h2, h3, h4, h5, h6');
+      // Nested lists belong to the list they are in
+      rendered.lists = count('ul, ol', el => !el.parentElement?.closest('li'));
+      rendered.codeBlocks = count('pre', el => !el.parentElement?.closest('pre'));
+      rendered.images = count('img');
+      rendered.tables = count('table');
+
+      // Visible text
+      const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+      let hasText = false;
+      while (!hasText && walker.nextNode()) {
+        const parent = walker.currentNode.parentElement;
+        if (!walker.currentNode.textContent?.trim() || !parent || !isCounted(parent)) continue;
+        const rect = parent.getBoundingClientRect();
+        hasText = rect.width > 0 && rect.height > 0;
+      }
+
+      // Visible media, including background images of the slide and its elements
+      const hasMedia = [root, ...Array.from(root.querySelectorAll('*'))].some(el => {
+        if (!isCounted(el)) return false;
+        const isMedia = el.matches('img, video, canvas, svg, iframe, object, embed');
+        const hasBackground = /url\(/.test(window.getComputedStyle(el).backgroundImage);
+        if (!isMedia && !hasBackground) return false;
+        const rect = el.getBoundingClientRect();
+        return rect.width > 0 && rect.height > 0;
+      });
+
+      return { element, rendered, empty: !hasText && !hasMedia };
+    }, { exclude: this.config.exclude });
+
+    if (empty) {
+      if (expected && expected.blocks === 0) {
+        return null;
+      }
+      return {
+        type: 'blank-slide',
+        element,
+        details: { reason: 'empty', rendered, expected: expected ?? undefined },
+      };
+    }
+
+    if (!expected) {
+      return null;
+    }
+
+    const missing: Partial<SlideContentCounts> = {};
+    for (const key of Object.keys(rendered) as Array<keyof SlideContentCounts>) {
+      if (rendered[key] < expected[key]) {
+        missing[key] = expected[key] - rendered[key];
+      }
+    }
+
+    if (Object.keys(missing).length === 0) {
+      return null;
+    }
+
+    return {
+      type: 'blank-slide',
+      element,
+      details: { reason: 'missing-content', rendered, expected, missing },
+    };
+  }
+
+  /**
+   * Font fallback detection
+   *
+   * Meant to run once all clicks of the slide are revealed. A declared font
+   * is unavailable when its web font faces failed (or were still loading
+   * after the wait), or when it has no web font and is not installed either.
+   * Slide text whose font-family starts with such a font is measured in a
+   * fallback font, so its other measurements may not match the presentation.
+   */
+  async detectFontFallback(): Promise<FontFallbackIssue[]> {
+    if (this.config.declaredFonts.length === 0) {
+      return [];
+    }
+    await installPageHelpers(this.page);
+
+    const issues = await this.page.evaluate(
+      ({ exclude, declaredFonts }) => {
+        const results: FontFallbackIssue[] = [];
+
+        const { findSlideLayout, isElementVisible, getElementInfo } =
+          (window as PageHelperWindow).__slidevChecker!;
+
+        // Only inspect main content area of slide
+        const slideLayout = findSlideLayout();
+        if (!slideLayout) return results;
+
+        const unquote = (family: string) => family.trim().replace(/^["']|["']$/g, '').toLowerCase();
+
+        // Web font faces of each family
+        const faces = new Map<string, FontFace[]>();
+        document.fonts.forEach(face => {
+          const family = unquote(face.family);
+          faces.set(family, [...(faces.get(family) ?? []), face]);
+        });
+
+        const context = document.createElement('canvas').getContext('2d');
+        const getStatus = (family: string): 'failed' | 'loading' | 'missing' | null => {
+          const familyFaces = faces.get(family.toLowerCase());
+          if (familyFaces) {
+            // Faces of unused weights or unicode ranges stay unloaded
+            if (familyFaces.some(face => face.status === 'loaded')) return null;
+            if (familyFaces.some(face => face.status === 'error')) return 'failed';
+            if (familyFaces.some(face => face.status === 'loading')) return 'loading';
+            return null;
+          }
+
+          // Installed fonts change the width of text set in each generic family
+          if (!context) return null;
+          const sample = 'mmmmmmmmmmlli WwQq 0123456789';
+          const installed = ['monospace', 'serif', 'sans-serif'].some(generic => {
+            context.font = `72px ${generic}`;
+            const width = context.measureText(sample).width;
+            context.font = `72px "${family}", ${generic}`;
+            return context.measureText(sample).width !== width;
+          });
+          return installed ? null : 'missing';
+        };
+
+        const unavailable = new Map<string, { font: typeof declaredFonts[number]; status: 'failed' | 'loading' | 'missing' }>();
+        for (const font of declaredFonts) {
+          const status = getStatus(font.family);
+          if (status) {
+            unavailable.set(font.family.toLowerCase(), { font, status });
+          }
+        }
+        if (unavailable.size === 0) return results;
+
+        // First text element and element count of each unavailable family used on the slide
+        const used = new Map<string, { element: Element; count: number }>();
+
+        for (const element of Array.from(slideLayout.querySelectorAll('*'))) {
+          const holdsText = Array.from(element.childNodes).some(
+            node => node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim()
+          );
+          if (!holdsText) continue;
+
+          // Skip elements matching exclusion selector
+          if (exclude.some((selector: string) => element.matches(selector) || element.closest(selector))) {
+            continue;
+          }
+          if (!isElementVisible(element, slideLayout)) continue;
+
+          const rect = element.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) continue;
+
+          // Later families of the stack are only used for characters the first lacks
+          const family = unquote(window.getComputedStyle(element).fontFamily.split(',')[0] ?? '');
+          if (!unavailable.has(family)) continue;
+
+          const entry = used.get(family);
+          if (entry) {
+            entry.count++;
+          } else {
+            used.set(family, { element, count: 1 });
+          }
+        }
+
+        for (const [family, { element, count }] of used) {
+          const { font, status } = unavailable.get(family)!;
+          results.push({
+            type: 'font-fallback',
+            element: getElementInfo(element, slideLayout),
+            details: {
+              family: font.family,
+              role: font.role,
+              status,
+              elementCount: count,
+            },
+          });
+        }
+
+        return results;
+      },
+      { exclude: this.config.exclude, declaredFonts: this.config.declaredFonts }
+    );
+
+    return issues as FontFallbackIssue[];
+  }
 }
@@ -0,0 +1,192 @@
+import { Page } from 'playwright';
+import { CodeBlockState, ElementInfo } from '../types';
+
+/**
+ * Helpers shared by the checks that run inside the page
+ *
+ * Installed once per document as `window.__slidevChecker`, so that every
+ * check finds the slide, decides visibility and describes elements the same way.
+ */
+export interface PageHelpers {
+  /**
+   * Find the slide page being shown
+   *
+   * Priority: 1) .active class, 2) slide number from URL, 3) visible slide
+   */
+  findActiveSlide(): Element | null;
+
+  /**
+   * Find the main content area of the slide being shown
+   */
+  findSlideLayout(): Element | null;
+
+  /**
+   * Whether an element is hidden by display, visibility, opacity or v-click
+   * (ancestors are checked up to, not including, root; null checks all of them)
+   */
+  isElementVisible(el: Element, root: Element | null): boolean;
+
+  /**
+   * Code block state, used to attribute issues to a highlight or magic-move step
+   */
+  getCodeBlock(el: Element, root: Element): CodeBlockState | undefined;
+
+  /**
+   * Describe an element for reports and source mapping
+   *
+   * @param info Fields to use instead of the ones read from the element
+   */
+  getElementInfo(el: Element, root: Element, info?: Partial<ElementInfo>): ElementInfo;
+
+  /**
+   * Box of the content an element draws: the whole box for media, code
+   * blocks and tables, the text itself for elements holding text
+   * (null for wrappers, so that those spanning the whole layout are not measured)
+   */
+  getContentRect(el: Element): DOMRect | null;
+}
+
+export type PageHelperWindow = Window & { __slidevChecker?: PageHelpers };
+
+/**
+ * Define the helpers in the page (runs in the browser, so it must not use anything outside itself)
+ */
+function definePageHelpers(): void {
+  const pageWindow = window as PageHelperWindow;
+  if (pageWindow.__slidevChecker) {
+    return;
+  }
+
+  const findActiveSlide = (): Element | null => {
+    const active = document.querySelector('.slidev-page.active');
+    if (active) return active;
+
+    const urlMatch = window.location.pathname.match(/\/(\d+)/) ||
+                    window.location.hash.match(/#?(\d+)/);
+    if (urlMatch) {
+      const slideNum = parseInt(urlMatch[1], 10);
+      const numbered = document.querySelector(`.slidev-page-${slideNum}`) ||
+                      document.querySelector(`[data-slidev-no="${slideNum}"]`);
+      if (numbered) return numbered;
+    }
+
+    return Array.from(document.querySelectorAll('.slidev-page')).find(slide => {
+      const rect = slide.getBoundingClientRect();
+      return rect.width > 0 && rect.height > 0;
+    }) ?? null;
+  };
+
+  const getCodeBlock = (el: Element, root: Element): CodeBlockState | undefined => {
+    const pre = el.closest('pre') ??
+      (el.classList.contains('slidev-code-wrapper') ? el.querySelector('pre') : null);
+    if (!pre || !root.contains(pre)) return undefined;
+
+    const blocks = Array.from(root.querySelectorAll('pre'))
+      .filter(block => !block.parentElement?.closest('pre'));
+    const lines = Array.from(pre.querySelectorAll('.line'));
+    const dimmed = lines.some(line => line.classList.contains('dishonored'));
+    return {
+      index: blocks.indexOf(pre),
+      highlightedLines: dimmed
+        ? lines.flatMap((line, i) => (line.classList.contains('highlighted') ? [i + 1] : []))
+        : [],
+      text: (pre.textContent ?? '').substring(0, 5000),
+    };
+  };
+
+  const MEDIA = ['IMG', 'SVG', 'VIDEO', 'CANVAS', 'IFRAME', 'OBJECT'];
+  const BOXES = ['PRE', 'TABLE'];
+
+  pageWindow.__slidevChecker = {
+    findActiveSlide,
+
+    findSlideLayout: () =>
+      findActiveSlide()?.querySelector('.slidev-layout') ||
+      document.querySelector('.slidev-layout'),
+
+    isElementVisible: (el, root) => {
+      if (el.closest('.slidev-vclick-hidden')) return false;
+
+      const style = window.getComputedStyle(el);
+      if (style.display === 'none') return false;
+      if (style.visibility === 'hidden') return false;
+      if (style.opacity === '0') return false;
+
+      // Visibility is inherited (and can be overridden), display and opacity are not
+      let parent = el.parentElement;
+      while (parent && parent !== root) {
+        const parentStyle = window.getComputedStyle(parent);
+        if (parentStyle.display === 'none') return false;
+        if (parentStyle.opacity === '0') return false;
+        parent = parent.parentElement;
+      }
+
+      return true;
+    },
+
+    getCodeBlock,
+
+    getElementInfo: (el, root, info) => {
+      let selector = el.tagName.toLowerCase();
+      if (el.id) {
+        selector += `#${el.id}`;
+      } else if (el.className && typeof el.className === 'string') {
+        const classes = el.className.trim().split(/\s+/);
+        if (classes.length > 0 && classes[0]) {
+          selector += `.${classes.join('.')}`;
+        }
+      }
+
+      // Direct text first, for better source mapping
+      let text = '';
+      for (const node of Array.from(el.childNodes)) {
+        if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+          text += node.textContent.trim() + ' ';
+        }
+      }
+      text = text.trim() || el.textContent?.trim() || '';
+
+      const tag = el.tagName.toLowerCase();
+      return {
+        tag,
+        class: (typeof el.className === 'string' && el.className) || undefined,
+        id: el.id || undefined,
+        selector,
+        text: text.substring(0, 100) || undefined,
+        src: tag === 'img' ? (el as HTMLImageElement).src : undefined,
+        codeBlock: getCodeBlock(el, root),
+        ...info,
+      };
+    },
+
+    getContentRect: el => {
+      const tag = el.tagName.toUpperCase();
+      if (MEDIA.includes(tag) || BOXES.includes(tag)) {
+        return el.getBoundingClientRect();
+      }
+
+      if (window.getComputedStyle(el).display === 'inline') return null;
+
+      const holdsText = Array.from(el.childNodes).some(node => {
+        if (node.nodeType === Node.TEXT_NODE) return !!node.textContent?.trim();
+        return (
+          node instanceof Element &&
+          window.getComputedStyle(node).display.startsWith('inline') &&
+          !!node.textContent?.trim()
+        );
+      });
+      if (!holdsText) return null;
+
+      const range = document.createRange();
+      range.selectNodeContents(el);
+      return range.getBoundingClientRect();
+    },
+  };
+}
+
+/**
+ * Install the shared helpers in the current document of a page (once per document)
+ */
+export async function installPageHelpers(page: Page): Promise<void> {
+  await page.evaluate(definePageHelpers);
+}
@@ -1,20 +1,55 @@
 import { Page } from 'playwright';
+import { RenderWait } from '../types';
+import { installPageHelpers, PageHelperWindow } from './PageHelpers';
 
 export interface NavigatorOptions {
-  wait?: number; // Wait time after page transition (milliseconds)
+  wait?: number; // Additional wait time after rendering settles (milliseconds)
+  settleTimeout?: number; // Longest wait for a slide to settle (milliseconds)
 }
 
+/**
+ * Consecutive animation frames without changes after which a slide has settled
+ */
+const SETTLE_FRAMES = 10;
+
+/**
+ * Default longest wait for a slide to settle (milliseconds)
+ */
+const SETTLE_TIMEOUT = 5000;
+
+/**
+ * Longest wait for web fonts to finish loading (milliseconds)
+ */
+const FONT_LOAD_TIMEOUT = 5000;
+
+/**
+ * Click state API of Slidev's navigation object
+ */
+interface SlidevClickNav {
+  currentPage?: number;
+  clicks?: number;
+  clicksTotal?: number;
+  go?: (no: number, clicks?: number) => void;
+}
+
+type SlidevWindow = Window & {
+  $slidev?: { nav?: SlidevClickNav };
+  __slidev__?: { nav?: SlidevClickNav };
+};
+
 /**
  * Class responsible for navigating Slidev pages
  */
 export class PageNavigator {
   private page: Page;
   private options: NavigatorOptions;
+  private renderWait: Omit<RenderWait, 'page'> = { time: 0, settled: true };
 
   constructor(page: Page, options: NavigatorOptions = {}) {
     this.page = page;
     this.options = {
       wait: options.wait ?? 0,
+      settleTimeout: options.settleTimeout ?? SETTLE_TIMEOUT,
     };
   }
 
@@ -66,6 +101,8 @@ export class PageNavigator {
    * Navigate to specified slide number
    */
   async navigateToSlide(slideNumber: number): Promise<void> {
+    this.renderWait = { time: 0, settled: true };
+
     try {
       // Reset navigation completion flag
       await this.page.evaluate(() => {
@@ -105,6 +142,65 @@ export class PageNavigator {
     }
   }
 
+  /**
+   * Get number of click steps on the current slide (0 if it has none)
+   */
+  async getClicksTotal(): Promise<number> {
+    try {
+      return await this.page.evaluate(() => {
+        const slidev = window as SlidevWindow;
+        const nav = slidev.$slidev?.nav ?? slidev.__slidev__?.nav;
+        return nav && typeof nav.clicksTotal === 'number' ? nav.clicksTotal : 0;
+      });
+    } catch (error) {
+      console.error('Error getting click count:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Show the given click state (0 = initial render) of the current slide
+   *
+   * @returns false if the Slidev navigation API is unavailable or navigation failed
+   */
+  async goToClick(click: number): Promise<boolean> {
+    let moved: boolean;
+    try {
+      moved = await this.page.evaluate((n) => {
+        const slidev = window as SlidevWindow;
+        const nav = slidev.$slidev?.nav ?? slidev.__slidev__?.nav;
+        if (!nav) {
+          return false;
+        }
+
+        if (typeof nav.go === 'function' && typeof nav.currentPage === 'number') {
+          nav.go(nav.currentPage, n);
+          return true;
+        }
+        if ('clicks' in nav) {
+          nav.clicks = n;
+          return true;
+        }
+        return false;
+      }, click);
+    } catch (error) {
+      console.error(`Error going to click ${click}:`, error);
+      return false;
+    }
+
+    if (moved) {
+      // Revealed content may use a font not needed before
+      await this.waitForStableRender();
+
+      const minWait = this.options.wait ?? 0;
+      if (minWait > 0) {
+        await this.page.waitForTimeout(minWait);
+      }
+    }
+
+    return moved;
+  }
+
   /**
    * Get current slide number
    */
@@ -138,7 +234,7 @@ export class PageNavigator {
   }
 
   /**
-   * Wait for slide to load (proportional wait based on slide count)
+   * Wait for slide to load and its rendering to settle
    */
   async waitForSlideLoad(): Promise<void> {
     try {
@@ -151,21 +247,8 @@ export class PageNavigator {
         });
       }, { timeout: 3000 });
 
-      // Step 2: Get total slides (if not already obtained)
-      if (!this.totalSlides) {
-        this.totalSlides = await this.getTotalSlides();
-      }
-
-      // Calculate wait time based on slide count
-      // Base: 600ms
-      // More slides = shorter wait time per slide
-      // Example: 10 slides or less = 600ms, 20 slides = 500ms, 40 slides = 400ms, 100 slides = 300ms
-      let waitTime = 600;
-      if (this.totalSlides > 10) {
-        waitTime = Math.max(300, 600 - Math.floor((this.totalSlides - 10) / 10) * 50);
-      }
-
-      await this.page.waitForTimeout(waitTime);
+      // Step 2: Wait for transitions, async components (Mermaid, KaTeX, Monaco) and fonts
+      await this.waitForStableRender();
     } catch (error) {
       // Continue even on error
     }
@@ -177,7 +260,122 @@ export class PageNavigator {
     }
   }
 
-  private totalSlides?: number;
+  /**
+   * Get the time spent waiting for the current slide to settle, clicks included
+   */
+  getRenderWait(): Omit<RenderWait, 'page'> {
+    return { ...this.renderWait };
+  }
+
+  /**
+   * Wait until the active slide has settled, then for its web fonts
+   *
+   * A slide has settled once it has had no DOM mutations, no running finite
+   * CSS animations or transitions, no images still loading and the same
+   * layout box for SETTLE_FRAMES consecutive animation frames. Infinite
+   * animations (spinners, pulses) never end, so they are ignored.
+   */
+  async waitForStableRender(): Promise<void> {
+    const start = Date.now();
+    let settled = false;
+
+    try {
+      await installPageHelpers(this.page);
+      settled = await this.page.evaluate(
+        async ({ timeout, frames }) => {
+          const { findActiveSlide } = (window as PageHelperWindow).__slidevChecker!;
+
+          let activeSlide = findActiveSlide();
+          let mutated = false;
+          const observer = new MutationObserver(records => {
+            if (records.some(record => activeSlide?.contains(record.target))) {
+              mutated = true;
+            }
+          });
+          observer.observe(document.body, {
+            subtree: true,
+            childList: true,
+            attributes: true,
+            characterData: true,
+          });
+
+          // Animations of the slide, its content, or the slide transition around it
+          const isAnimating = (slide: Element) =>
+            document.getAnimations().some(animation => {
+              if (animation.playState !== 'running') return false;
+              const effect = animation.effect as KeyframeEffect | null;
+              const target = effect?.target;
+              if (!target || (!slide.contains(target) && !target.contains(slide))) return false;
+              return effect.getComputedTiming().iterations !== Infinity;
+            });
+
+          const isLoadingImage = (slide: Element) =>
+            Array.from(slide.querySelectorAll('img')).some(
+              img => !img.complete && img.loading !== 'lazy'
+            );
+
+          const began = performance.now();
+          let lastBox = '';
+          let stableFrames = 0;
+
+          try {
+            while (performance.now() - began < timeout) {
+              // Frames are not produced for a hidden page, so time out each one too
+              await new Promise<void>(resolve => {
+                requestAnimationFrame(() => resolve());
+                setTimeout(resolve, 100);
+              });
+
+              const slide = findActiveSlide();
+              const rect = slide?.getBoundingClientRect();
+              const box = rect ? `${rect.left},${rect.top},${rect.width},${rect.height}` : '';
+              const changed =
+                !slide || slide !== activeSlide || mutated || box !== lastBox ||
+                isAnimating(slide) || isLoadingImage(slide);
+
+              activeSlide = slide;
+              lastBox = box;
+              mutated = false;
+              stableFrames = changed ? 0 : stableFrames + 1;
+              if (stableFrames >= frames) {
+                return true;
+              }
+            }
+            return false;
+          } finally {
+            observer.disconnect();
+          }
+        },
+        { timeout: this.options.settleTimeout ?? SETTLE_TIMEOUT, frames: SETTLE_FRAMES }
+      );
+
+      // Text measured before its web font loads is measured in a fallback font (within the same timeout)
+      const remaining = (this.options.settleTimeout ?? SETTLE_TIMEOUT) - (Date.now() - start);
+      if (remaining > 0) {
+        await this.waitForFonts(remaining);
+      }
+    } catch {
+      // Measure what has rendered so far
+    }
+
+    this.renderWait = {
+      time: this.renderWait.time + (Date.now() - start),
+      settled: this.renderWait.settled && settled,
+    };
+  }
+
+  /**
+   * Wait until the web fonts used so far have loaded or failed
+   */
+  async waitForFonts(timeout = FONT_LOAD_TIMEOUT): Promise<void> {
+    try {
+      await this.page.waitForFunction(() => document.fonts.status === 'loaded', undefined, {
+        timeout,
+      });
+    } catch {
+      // Fonts still loading are reported as font-fallback issues
+    }
+  }
 
   /**
    * Check if page is ready
@@ -0,0 +1,71 @@
+import { ConsoleMessage, Page } from 'playwright';
+import { RuntimeError } from '../types';
+
+/**
+ * Class that collects console errors and uncaught exceptions of a page
+ *
+ * Errors are collected until taken, so taking them after each slide ties
+ * them to the slide that was active when they fired.
+ */
+export class RuntimeErrorMonitor {
+  private errors: RuntimeError[] = [];
+
+  /**
+   * Start listening before the page navigates, so errors of the first render are collected too
+   */
+  constructor(page: Page) {
+    page.on('console', message => this.onConsole(message));
+    page.on('pageerror', error => {
+      // First stack frame below the message
+      const frame = error.stack?.split('\n').find(line => line.trim().startsWith('at '));
+      this.add({
+        type: 'exception',
+        message: error.message,
+        location: frame?.trim().replace(/^at\s+/, ''),
+      });
+    });
+  }
+
+  /**
+   * Get errors collected since the last call
+   */
+  take(): RuntimeError[] {
+    const errors = this.errors;
+    this.errors = [];
+    return errors;
+  }
+
+  /**
+   * Collect console.error messages
+   */
+  private onConsole(message: ConsoleMessage): void {
+    if (message.type() !== 'error') {
+      return;
+    }
+
+    // Failed requests are reported as broken-asset issues
+    const text = message.text();
+    if (text.startsWith('Failed to load resource')) {
+      return;
+    }
+
+    const { url, lineNumber, columnNumber } = message.location();
+    this.add({
+      type: 'console',
+      message: text,
+      location: url ? `${url}:${lineNumber + 1}:${columnNumber + 1}` : undefined,
+    });
+  }
+
+  /**
+   * Add an error unless the same error was already collected
+   */
+  private add(error: RuntimeError): void {
+    const duplicate = this.errors.some(
+      other => other.type === error.type && other.message === error.message
+    );
+    if (!duplicate) {
+      this.errors.push(error);
+    }
+  }
+}
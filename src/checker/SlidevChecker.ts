@@ -1,28 +1,56 @@
 import { Browser, Page, chromium, firefox, webkit } from 'playwright';
 import { PageNavigator } from './PageNavigator';
 import { OverflowDetector } from './OverflowDetector';
-import { CheckerOptions, CheckResult, SlideResult, DetectionConfig } from '../types';
+import { AssetMonitor } from './AssetMonitor';
+import { RuntimeErrorMonitor } from './RuntimeErrorMonitor';
+import {
+  CheckerOptions,
+  CheckResult,
+  SlideResult,
+  DetectionConfig,
+  ContentAnalysisResult,
+  StyleCalibration,
+  CustomLayoutDefinition,
+  ExpectedSlideContent,
+  Issue,
+  RenderWait,
+} from '../types';
 import { ConsoleReporter } from '../reporters/ConsoleReporter';
 import { JsonReporter } from '../reporters/JsonReporter';
 import { HtmlReporter } from '../reporters/HtmlReporter';
 import { SlideMapper } from '../parsers/SlideMapper';
 import { ScreenshotCapture } from '../utils/ScreenshotCapture';
+import { SlidevLauncher } from '../launchers/SlidevLauncher';
+import { StaticServer } from '../launchers/StaticServer';
+import { ContentAnalyzer } from '../analysis/ContentAnalyzer';
+import { matchPredictions } from '../analysis/PredictionMatcher';
+import { predictionsToSlideResults } from '../analysis/PredictedIssueConverter';
+import { StyleCalibrator } from '../calibration/StyleCalibrator';
+import { CalibrationCache } from '../calibration/CalibrationCache';
+import { LayoutProbe } from '../calibration/LayoutProbe';
 import { join } from 'path';
 
 export class SlidevChecker {
   private options: CheckerOptions;
   private browser?: Browser;
   private page?: Page;
+  private assetMonitor?: AssetMonitor;
+  private errorMonitor?: RuntimeErrorMonitor;
+  private launcher?: SlidevLauncher;
+  private staticServer?: StaticServer;
 
   constructor(options: CheckerOptions) {
     this.options = {
       threshold: 1,
+      minFontSize: 12,
+      maxImageUpscale: 1.5,
       wait: 1000,
       viewport: { width: 1920, height: 1080 },
       browser: 'chromium',
       headless: true,
       verbose: false,
       exclude: ['.slidev-page-indicator', '.slidev-nav'],
+      overlays: ['.slidev-page-indicator'],
       ...options,
     };
   }
@@ -31,13 +59,33 @@ export class SlidevChecker {
    * Execute check
    */
   async check(): Promise<CheckResult> {
-    const url = this.options.url;
+    if (this.options.staticOnly) {
+      if (!this.options.project) {
+        throw new Error('Project is required for static-only check. Provide a Slidev project with --project option.');
+      }
+      return this.performStaticCheck(this.options.project);
+    }
 
-    if (!url) {
-      throw new Error('URL is required. Please start Slidev manually and provide the URL with --url option.');
+    if (!this.options.url && !this.options.dist && !this.options.project) {
+      throw new Error('URL, build output or project is required. Provide the URL with --url option, a "slidev build" directory with --dist option or a Slidev project with --project option.');
     }
 
+    // Stop the Slidev server we started if the process is interrupted
+    const onSignal = (signal: NodeJS.Signals) => {
+      this.launcher?.kill();
+      process.exit(signal === 'SIGINT' ? 130 : 143);
+    };
+    process.once('SIGINT', onSignal);
+    process.once('SIGTERM', onSignal);
+
     try {
+      // Serve the build output or start Slidev when no URL is given
+      const url =
+        this.options.url ??
+        (this.options.dist
+          ? await this.serveDist(this.options.dist)
+          : await this.launchSlidev(this.options.project!));
+
       // Launch browser
       await this.launchBrowser();
 
@@ -48,15 +96,51 @@ export class SlidevChecker {
       await this.navigateToUrl(url);
 
       // Execute check
-      const result = await this.performCheck();
+      const result = await this.performCheck(url);
 
       return result;
     } finally {
+      process.removeListener('SIGINT', onSignal);
+      process.removeListener('SIGTERM', onSignal);
+
       // Cleanup
       await this.cleanup();
     }
   }
 
+  /**
+   * Start Slidev dev server for the project
+   */
+  private async launchSlidev(projectPath: string): Promise<string> {
+    this.launcher = new SlidevLauncher();
+
+    if (this.options.verbose) {
+      console.log(`Starting Slidev for ${projectPath}...`);
+    }
+
+    const url = await this.launcher.launch(projectPath, { verbose: this.options.verbose });
+
+    if (this.options.verbose) {
+      console.log(`Slidev is running at ${url}`);
+    }
+
+    return url;
+  }
+
+  /**
+   * Serve static build output from the built-in HTTP server
+   */
+  private async serveDist(distPath: string): Promise<string> {
+    this.staticServer = new StaticServer();
+    const url = await this.staticServer.start(distPath);
+
+    if (this.options.verbose) {
+      console.log(`Serving ${distPath} at ${url}`);
+    }
+
+    return url;
+  }
+
   /**
    * Launch browser
    */
@@ -95,6 +179,8 @@ export class SlidevChecker {
     this.page = await this.browser.newPage({
       viewport: this.options.viewport,
     });
+    this.assetMonitor = new AssetMonitor(this.page);
+    this.errorMonitor = new RuntimeErrorMonitor(this.page);
   }
 
   /**
@@ -125,18 +211,22 @@ export class SlidevChecker {
   /**
    * Execute check
    */
-  private async performCheck(): Promise<CheckResult> {
+  private async performCheck(url: string): Promise<CheckResult> {
     if (!this.page) {
       throw new Error('Page not created');
     }
 
     const navigator = new PageNavigator(this.page, {
       wait: this.options.wait,
+      settleTimeout: this.options.settleTimeout,
     });
 
     // Wait for Slidev to be ready
     await navigator.waitForReady();
 
+    // Errors of the initial load belong to the deck, not to the first slide checked
+    const loadErrors = this.errorMonitor?.take() ?? [];
+
     // Get total slide count
     const totalSlides = await navigator.getTotalSlides();
 
@@ -160,12 +250,36 @@ export class SlidevChecker {
 
     // Reporter
     const reporter = new ConsoleReporter(this.options.verbose);
+    reporter.reportLoadErrors(loadErrors);
+
+    // Static pre-check of the Markdown source
+    const contentAnalysis = await this.runContentAnalysis(reporter, navigator, totalSlides);
+
+    // Slides shown for calibration and layout probing are checked (and their errors taken) again below
+    this.errorMonitor?.take();
 
     // Detection configuration
     const detectionConfig: DetectionConfig = {
       textOverflow: true,
       elementOverflow: true,
       scrollbar: true,
+      elementOverlap: true,
+      clippedContent: true,
+      truncatedText: true,
+      safeArea: this.options.safeArea !== undefined,
+      safeAreaInset: this.options.safeArea,
+      brokenAsset: true,
+      blankSlide: true,
+      lowResolutionImage: true,
+      maxImageUpscale: this.options.maxImageUpscale ?? 1.5,
+      occludedContent: true,
+      overlays: this.options.overlays ?? [],
+      tinyText: this.options.minFontSize !== undefined,
+      minFontSize: this.options.minFontSize,
+      lowContrast: this.options.minContrast !== undefined,
+      minContrast: this.options.minContrast,
+      fontFallback: true,
+      declaredFonts: slideMapper?.getDeclaredFonts() ?? [],
       exclude: this.options.exclude ?? [],
       threshold: this.options.threshold ?? 1,
     };
@@ -173,6 +287,7 @@ export class SlidevChecker {
     // For parallel execution
     const concurrency = this.options.concurrency ?? 1;
     const slides: SlideResult[] = [];
+    const renderWaits: RenderWait[] = [];
 
     if (concurrency > 1) {
       // Parallel check
@@ -184,31 +299,50 @@ export class SlidevChecker {
           const workerPage = await this.browser!.newPage({
             viewport: this.options.viewport,
           });
+          const workerMonitor = new AssetMonitor(workerPage);
+          const workerErrorMonitor = new RuntimeErrorMonitor(workerPage);
 
           try {
             // Navigate to URL
-            await workerPage.goto(this.options.url || '', { waitUntil: 'networkidle' });
+            await workerPage.goto(url, { waitUntil: 'networkidle' });
 
             const workerNavigator = new PageNavigator(workerPage, {
               wait: this.options.wait,
+              settleTimeout: this.options.settleTimeout,
             });
 
             await workerNavigator.waitForReady();
 
+            // Errors of the initial load were already taken on the main page
+            workerErrorMonitor.take();
+
             // Check slides assigned to this worker
             for (const slideNumber of chunk) {
               reporter.reportSlideStart(slideNumber, totalSlides);
 
               await workerNavigator.navigateToSlide(slideNumber);
 
-              const detector = new OverflowDetector(workerPage, detectionConfig);
-              let issues = await detector.detectIssues();
+              let { issues, warnings } = await this.detectSlideIssues(
+                workerPage,
+                workerNavigator,
+                detectionConfig,
+                workerMonitor,
+                slideMapper?.getExpectedContent(slideNumber)
+              );
+
+              const runtimeErrors = workerErrorMonitor.take();
+              const renderWait = { page: slideNumber, ...workerNavigator.getRenderWait() };
+              renderWaits.push(renderWait);
 
               if (slideMapper) {
                 issues = issues.map(issue => slideMapper!.addSourceInfo(slideNumber, issue));
+                warnings = warnings.map(issue => slideMapper!.addSourceInfo(slideNumber, issue));
               }
 
               reporter.reportSlideIssues(slideNumber, issues);
+              reporter.reportSlideWarnings(slideNumber, warnings);
+              reporter.reportRuntimeErrors(runtimeErrors);
+              reporter.reportRenderWait(renderWait);
 
               let screenshotPath: string | undefined;
               if (this.options.screenshot?.enabled && issues.length > 0) {
@@ -229,11 +363,13 @@ export class SlidevChecker {
                 }
               }
 
-              if (issues.length > 0) {
+              if (issues.length > 0 || warnings.length > 0 || runtimeErrors.length > 0) {
                 slides.push({
                   page: slideNumber,
                   issueCount: issues.length,
                   issues,
+                  warnings: warnings.length > 0 ? warnings : undefined,
+                  runtimeErrors: runtimeErrors.length > 0 ? runtimeErrors : undefined,
                   screenshot: screenshotPath,
                 });
               }
@@ -250,14 +386,27 @@ export class SlidevChecker {
 
         await navigator.navigateToSlide(slideNumber);
 
-        const detector = new OverflowDetector(this.page, detectionConfig);
-        let issues = await detector.detectIssues();
+        let { issues, warnings } = await this.detectSlideIssues(
+          this.page,
+          navigator,
+          detectionConfig,
+          this.assetMonitor,
+          slideMapper?.getExpectedContent(slideNumber)
+        );
+
+        const runtimeErrors = this.errorMonitor?.take() ?? [];
+        const renderWait = { page: slideNumber, ...navigator.getRenderWait() };
+        renderWaits.push(renderWait);
 
         if (slideMapper) {
           issues = issues.map(issue => slideMapper!.addSourceInfo(slideNumber, issue));
+          warnings = warnings.map(issue => slideMapper!.addSourceInfo(slideNumber, issue));
         }
 
         reporter.reportSlideIssues(slideNumber, issues);
+        reporter.reportSlideWarnings(slideNumber, warnings);
+        reporter.reportRuntimeErrors(runtimeErrors);
+        reporter.reportRenderWait(renderWait);
 
         let screenshotPath: string | undefined;
         if (this.options.screenshot?.enabled && issues.length > 0) {
@@ -278,11 +427,13 @@ export class SlidevChecker {
           }
         }
 
-        if (issues.length > 0) {
+        if (issues.length > 0 || warnings.length > 0 || runtimeErrors.length > 0) {
           slides.push({
             page: slideNumber,
             issueCount: issues.length,
             issues,
+            warnings: warnings.length > 0 ? warnings : undefined,
+            runtimeErrors: runtimeErrors.length > 0 ? runtimeErrors : undefined,
             screenshot: screenshotPath,
           });
         }
@@ -291,6 +442,14 @@ export class SlidevChecker {
 
     // Aggregate results
     const result = this.aggregateResults(totalSlides, slides);
+    result.renderWaits = renderWaits.sort((a, b) => a.page - b.page);
+    result.loadErrors = loadErrors.length > 0 ? loadErrors : undefined;
+
+    if (contentAnalysis) {
+      // Compare static predictions with what the browser actually found
+      matchPredictions(contentAnalysis, slides, pageRange);
+      result.contentAnalysis = contentAnalysis;
+    }
 
     // Report summary
     reporter.reportSummary(result);
@@ -301,6 +460,218 @@ export class SlidevChecker {
     return result;
   }
 
+  /**
+   * Detect issues at every click step of the current slide
+   *
+   * Issues are reported once, with the click step they first appeared at.
+   * Code highlight and magic-move steps advance with clicks too.
+   * A blank slide and font fallback are checked once, with all clicks revealed.
+   * Font fallback is returned as a warning: it does not fail the check.
+   */
+  private async detectSlideIssues(
+    page: Page,
+    navigator: PageNavigator,
+    detectionConfig: DetectionConfig,
+    assetMonitor?: AssetMonitor,
+    expectedContent?: ExpectedSlideContent | null
+  ): Promise<{ issues: Issue[]; warnings: Issue[] }> {
+    const detector = new OverflowDetector(page, detectionConfig, assetMonitor);
+    const issues = await detector.detectIssues();
+    // Code blocks share selectors, so their index on the slide tells them apart (and images their src)
+    const getKey = (issue: Issue) =>
+      `${issue.type}|${issue.element.selector}|${issue.element.codeBlock?.index ?? ''}|${issue.element.src ?? ''}` +
+      (issue.type === 'element-overlap' ? `|${issue.details.overlappedElement.selector}` : '');
+    const seen = new Set(issues.map(getKey));
+
+    const clicksTotal = await navigator.getClicksTotal();
+    for (let click = 1; click <= clicksTotal; click++) {
+      if (!(await navigator.goToClick(click))) {
+        break;
+      }
+
+      for (const issue of await detector.detectIssues()) {
+        const key = getKey(issue);
+        if (!seen.has(key)) {
+          seen.add(key);
+          issues.push({ ...issue, click });
+        }
+      }
+    }
+
+    if (detectionConfig.blankSlide) {
+      const blankSlide = await detector.detectBlankSlide(expectedContent);
+      if (blankSlide) {
+        issues.push(blankSlide);
+      }
+    }
+
+    const warnings = detectionConfig.fontFallback ? await detector.detectFontFallback() : [];
+
+    return { issues, warnings };
+  }
+
+  /**
+   * Execute static-only check (Markdown analysis without a browser)
+   */
+  private async performStaticCheck(projectPath: string): Promise<CheckResult> {
+    const reporter = new ConsoleReporter(this.options.verbose);
+    const analyzer = new ContentAnalyzer(this.options.contentAnalysis);
+
+    const { file, markdown } = await analyzer.readProjectMarkdown(projectPath);
+    const calibration = await analyzer.loadCachedCalibration(projectPath, markdown);
+    // Scanning every system font would take longer than the check itself
+    await analyzer.loadFonts(projectPath, false);
+    await analyzer.loadLayouts(projectPath, markdown);
+    const analysis = analyzer.analyzeMarkdown(markdown, calibration);
+    const totalSlides = analysis.slideAnalysis.length;
+
+    if (totalSlides === 0) {
+      throw new Error('No slides found in the presentation');
+    }
+
+    const pageRange = this.parsePageRange(this.options.pages, totalSlides);
+    const slides = predictionsToSlideResults(analysis, file, markdown, pageRange);
+
+    reporter.reportAnalysisWarnings(analysis);
+
+    for (const slideNumber of pageRange) {
+      reporter.reportSlideStart(slideNumber, totalSlides);
+      const slide = slides.find(s => s.page === slideNumber);
+      reporter.reportSlideIssues(slideNumber, slide?.issues ?? []);
+    }
+
+    const result = this.aggregateResults(totalSlides, slides);
+    result.contentAnalysis = analysis;
+    result.staticOnly = true;
+
+    reporter.reportSummary(result);
+
+    await this.outputReports(result);
+
+    return result;
+  }
+
+  /**
+   * Run static content analysis (only when project path is specified)
+   */
+  private async runContentAnalysis(
+    reporter: ConsoleReporter,
+    navigator: PageNavigator,
+    totalSlides: number
+  ): Promise<ContentAnalysisResult | undefined> {
+    const config = this.options.contentAnalysis ?? {};
+    const projectPath = this.options.project;
+
+    if (!projectPath || config.disableAutoAnalysis) {
+      return undefined;
+    }
+
+    try {
+      const analyzer = new ContentAnalyzer(config);
+      const { markdown } = await analyzer.readProjectMarkdown(projectPath);
+      const calibration =
+        (await this.calibrateStyles(analyzer, markdown, navigator, totalSlides)) ??
+        (await analyzer.loadCachedCalibration(projectPath, markdown));
+      await analyzer.loadFonts(projectPath);
+      await analyzer.loadLayouts(projectPath, markdown);
+      await this.probeLayouts(analyzer, markdown, navigator, totalSlides);
+      const analysis = analyzer.analyzeMarkdown(markdown, calibration);
+
+      if (config.preCheckWarnings ?? true) {
+        reporter.reportPreCheck(analysis);
+      }
+
+      return analysis;
+    } catch (error) {
+      console.warn('Warning: Could not analyze project markdown:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Measure the theme's styles on the rendered deck and cache them for static-only runs
+   */
+  private async calibrateStyles(
+    analyzer: ContentAnalyzer,
+    markdown: string,
+    navigator: PageNavigator,
+    totalSlides: number
+  ): Promise<StyleCalibration | undefined> {
+    if (!this.page || !this.options.project) {
+      return undefined;
+    }
+
+    const target = analyzer.getCalibrationTarget(markdown);
+    if (target.slide > totalSlides) {
+      target.slide = 1;
+    }
+
+    try {
+      await navigator.navigateToSlide(target.slide);
+      const calibration = await new StyleCalibrator(this.page).calibrate(target);
+      if (!calibration) {
+        return undefined;
+      }
+
+      if (this.options.contentAnalysis?.cacheEnabled ?? true) {
+        await new CalibrationCache(this.options.project).save(calibration);
+      }
+
+      return calibration;
+    } catch (error) {
+      console.warn('Warning: Could not calibrate theme styles:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Measure the slot boxes of custom layouts that have no slot description
+   * and cache them for static-only runs
+   */
+  private async probeLayouts(
+    analyzer: ContentAnalyzer,
+    markdown: string,
+    navigator: PageNavigator,
+    totalSlides: number
+  ): Promise<void> {
+    if (!this.page || !this.options.project) {
+      return;
+    }
+
+    const layouts: Record<string, CustomLayoutDefinition> = {};
+    const probe = new LayoutProbe(this.page);
+
+    for (const { layout, slide, markers } of analyzer.getUndescribedLayouts(markdown)) {
+      if (slide > totalSlides) continue;
+
+      try {
+        await navigator.navigateToSlide(slide);
+        const measured = await probe.probe(markers);
+        if (measured) {
+          layouts[layout] = measured;
+        }
+      } catch (error) {
+        console.warn(`Warning: Could not measure layout "${layout}":`, error);
+      }
+    }
+
+    if (Object.keys(layouts).length === 0) {
+      return;
+    }
+
+    analyzer.addMeasuredLayouts(layouts);
+
+    if (this.options.contentAnalysis?.cacheEnabled ?? true) {
+      const { theme, slideDimensions } = analyzer.getCalibrationTarget(markdown);
+      await new CalibrationCache(this.options.project).saveLayouts(
+        theme,
+        slideDimensions.canvasWidth,
+        slideDimensions.canvasHeight,
+        layouts
+      );
+    }
+  }
+
   /**
    * Output reports
    */
@@ -373,47 +744,53 @@ export class SlidevChecker {
    * Aggregate results
    */
   private aggregateResults(totalSlides: number, slides: SlideResult[]): CheckResult {
-    const slidesWithIssues = slides.map(s => s.page);
+    const slidesWithIssues = slides.filter(s => s.issueCount > 0).map(s => s.page);
     const issuesFound = slides.reduce((sum, s) => sum + s.issueCount, 0);
 
     // Aggregate by issue type
-    const textOverflowSlides = new Set<number>();
-    const elementOverflowSlides = new Set<number>();
-    const scrollbarSlides = new Set<number>();
+    const slidesByType = new Map<Issue['type'], Set<number>>();
 
     slides.forEach(slide => {
-      slide.issues.forEach(issue => {
-        switch (issue.type) {
-          case 'text-overflow':
-            textOverflowSlides.add(slide.page);
-            break;
-          case 'element-overflow':
-            elementOverflowSlides.add(slide.page);
-            break;
-          case 'scrollbar':
-            scrollbarSlides.add(slide.page);
-            break;
-        }
+      [...slide.issues, ...(slide.warnings ?? [])].forEach(issue => {
+        const pages = slidesByType.get(issue.type) ?? new Set<number>();
+        pages.add(slide.page);
+        slidesByType.set(issue.type, pages);
       });
     });
 
+    const slidesWithErrors = slides
+      .filter(slide => (slide.runtimeErrors?.length ?? 0) > 0)
+      .map(slide => slide.page)
+      .sort((a, b) => a - b);
+
+    const summarize = (type: Issue['type']) => {
+      const pages = Array.from(slidesByType.get(type) ?? []).sort((a, b) => a - b);
+      return { count: pages.length, slides: pages };
+    };
+
     return {
       timestamp: new Date().toISOString(),
       totalSlides,
       slidesWithIssues,
       issuesFound,
       summary: {
-        textOverflow: {
-          count: textOverflowSlides.size,
-          slides: Array.from(textOverflowSlides).sort((a, b) => a - b),
-        },
-        elementOverflow: {
-          count: elementOverflowSlides.size,
-          slides: Array.from(elementOverflowSlides).sort((a, b) => a - b),
-        },
-        scrollbar: {
-          count: scrollbarSlides.size,
-          slides: Array.from(scrollbarSlides).sort((a, b) => a - b),
+        textOverflow: summarize('text-overflow'),
+        elementOverflow: summarize('element-overflow'),
+        scrollbar: summarize('scrollbar'),
+        elementOverlap: summarize('element-overlap'),
+        clippedContent: summarize('clipped-content'),
+        truncatedText: summarize('truncated-text'),
+        safeArea: summarize('safe-area'),
+        brokenAsset: summarize('broken-asset'),
+        blankSlide: summarize('blank-slide'),
+        lowResolutionImage: summarize('low-resolution-image'),
+        occludedContent: summarize('occluded-content'),
+        tinyText: summarize('tiny-text'),
+        lowContrast: summarize('low-contrast'),
+        fontFallback: summarize('font-fallback'),
+        runtimeErrors: {
+          count: slidesWithErrors.length,
+          slides: slidesWithErrors,
         },
       },
       slides,
@@ -424,14 +801,29 @@ export class SlidevChecker {
    * Cleanup
    */
   private async cleanup(): Promise<void> {
-    if (this.page) {
-      await this.page.close();
-      this.page = undefined;
-    }
+    try {
+      if (this.page) {
+        await this.page.close();
+        this.page = undefined;
+        this.assetMonitor = undefined;
+        this.errorMonitor = undefined;
+      }
 
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = undefined;
+      if (this.browser) {
+        await this.browser.close();
+        this.browser = undefined;
+      }
+    } finally {
+      // Always stop the servers we started, even if closing the browser failed
+      if (this.launcher) {
+        await this.launcher.stop();
+        this.launcher = undefined;
+      }
+
+      if (this.staticServer) {
+        await this.staticServer.stop();
+        this.staticServer = undefined;
+      }
     }
   }
 }
@@ -2,8 +2,9 @@
 
 import { Command } from 'commander';
 import { SlidevChecker } from './checker/SlidevChecker';
+import { parseSafeAreaInset } from './checker/OverflowDetector';
 import { ConfigLoader } from './utils/ConfigLoader';
-import { CheckerOptions } from './types';
+import { CheckerOptions, SafeAreaInset } from './types';
 
 const program = new Command();
 
@@ -13,8 +14,9 @@ program
   .version('0.1.0');
 
 program
-  .option('-u, --url <url>', 'URL of the Slidev presentation (required)')
-  .option('--project <path>', 'Path to Slidev project directory (for source mapping)')
+  .option('-u, --url <url>', 'URL of the Slidev presentation (Slidev is started from --project if omitted)')
+  .option('--project <path>', 'Path to Slidev project directory (for source mapping and auto-launch)')
+  .option('--dist <dir>', 'Path to a "slidev build" output directory to check without a dev server')
   .option('-p, --pages <range>', 'Page range to check (e.g., 1-10, 5)')
   .option(
     '-f, --format <formats>',
@@ -27,11 +29,35 @@ program
     'Overflow detection threshold in pixels',
     '1'
   )
+  .option(
+    '--safe-area <inset>',
+    'Report content closer to the slide edges than this inset (px, e.g. 24, or percent, e.g. 5%)'
+  )
+  .option(
+    '--overlay <selectors>',
+    'Selectors of elements drawn over every slide, comma-separated (default: .slidev-page-indicator)'
+  )
+  .option(
+    '--min-font-size <px>',
+    'Report text smaller than this size in slide canvas px, zoom included (e.g. 12)'
+  )
+  .option(
+    '--min-contrast <ratio>',
+    'Report text with a WCAG contrast ratio below this against its rendered background (e.g. 4.5)'
+  )
+  .option(
+    '--max-image-upscale <ratio>',
+    'Report images displayed larger than this multiple of their native size (default: 1.5)'
+  )
   .option(
     '-w, --wait <ms>',
     'Additional wait time after rendering stabilizes in milliseconds',
     '0'
   )
+  .option(
+    '--settle-timeout <ms>',
+    'Longest wait for a slide to settle (no DOM changes, animations or loading images) before measuring (default: 5000)'
+  )
   .option(
     '--viewport <size>',
     'Viewport size (e.g., 1920x1080)',
@@ -49,7 +75,9 @@ program
   .option('--screenshot-dir <dir>', 'Screenshot output directory', './screenshots')
   .option('--screenshot-full-page', 'Capture full page screenshots', false)
   .option('--no-screenshot-highlight', 'Disable highlighting of issues in screenshots')
-  .option('--fail-on-issues', 'Exit with code 1 if issues are found (for CI/CD)', false)
+  .option('--fail-on-issues', 'Exit with code 1 if issues of any checked type are found (for CI/CD)', false)
+  .option('--fail-on-runtime-errors', 'Exit with code 1 if console errors or page exceptions occur (for CI/CD)')
+  .option('--static-only', 'Only analyze the Markdown source (requires --project, no browser)', false)
   .option('--concurrency <n>', 'Number of slides to check in parallel', '1')
   .option('-c, --config <path>', 'Path to configuration file');
 
@@ -63,8 +91,18 @@ program.action(async (options) => {
     }
 
     // Validate options
-    if (!options.url && !config.url) {
-      console.error('Error: --url option is required');
+    const staticOnly = options.staticOnly || config.staticOnly;
+    if (staticOnly && !options.project && !config.project) {
+      console.error('Error: --static-only requires the --project option');
+      process.exit(1);
+    }
+
+    if (
+      !options.url && !config.url &&
+      !options.dist && !config.dist &&
+      !options.project && !config.project
+    ) {
+      console.error('Error: --url, --dist or --project option is required');
       process.exit(1);
     }
 
@@ -79,6 +117,45 @@ program.action(async (options) => {
       viewport = { width, height };
     }
 
+    // Validate safe-area inset
+    let safeArea: SafeAreaInset | undefined;
+    if (options.safeArea) {
+      try {
+        safeArea = parseSafeAreaInset(options.safeArea);
+      } catch {
+        console.error('Error: Invalid safe-area inset. Use px (e.g., 24) or a percentage below 50% (e.g., 5%)');
+        process.exit(1);
+      }
+    }
+
+    // Validate minimum font size
+    const minFontSize = options.minFontSize ? parseFloat(options.minFontSize) : undefined;
+    if (minFontSize !== undefined && !(minFontSize > 0)) {
+      console.error('Error: Invalid minimum font size. Use a size in px (e.g., 12)');
+      process.exit(1);
+    }
+
+    // Validate minimum contrast ratio
+    const minContrast = options.minContrast ? parseFloat(options.minContrast) : undefined;
+    if (minContrast !== undefined && !(minContrast >= 1 && minContrast <= 21)) {
+      console.error('Error: Invalid contrast ratio. Use a number from 1 to 21 (e.g., 4.5)');
+      process.exit(1);
+    }
+
+    // Validate settle timeout
+    const settleTimeout = options.settleTimeout ? parseInt(options.settleTimeout, 10) : undefined;
+    if (settleTimeout !== undefined && !(settleTimeout > 0)) {
+      console.error('Error: Invalid settle timeout. Use a positive number of milliseconds (e.g., 5000)');
+      process.exit(1);
+    }
+
+    // Validate image upscale ratio
+    const maxImageUpscale = options.maxImageUpscale ? parseFloat(options.maxImageUpscale) : undefined;
+    if (maxImageUpscale !== undefined && !(maxImageUpscale >= 1)) {
+      console.error('Error: Invalid image upscale ratio. Use a number of at least 1 (e.g., 1.5)');
+      process.exit(1);
+    }
+
     // Validate browser
     const browser = (options.browser || config.browser || 'chromium') as 'chromium' | 'firefox' | 'webkit';
     if (!['chromium', 'firefox', 'webkit'].includes(browser)) {
@@ -98,17 +175,26 @@ program.action(async (options) => {
     const cliOptions: Partial<CheckerOptions> = {
       url: options.url,
       project: options.project,
+      dist: options.dist,
       pages: options.pages,
       format: options.format?.split(','),
       output: options.output,
       threshold: options.threshold ? parseInt(options.threshold, 10) : undefined,
       wait: options.wait ? parseInt(options.wait, 10) : undefined,
+      settleTimeout,
+      safeArea,
+      overlays: options.overlay?.split(',').map((selector: string) => selector.trim()),
+      minFontSize,
+      minContrast,
+      maxImageUpscale,
       viewport,
       browser,
       headless: options.headless,
       verbose: options.verbose,
       screenshot: screenshotOptions,
       failOnIssues: options.failOnIssues,
+      failOnRuntimeErrors: options.failOnRuntimeErrors,
+      staticOnly: options.staticOnly || undefined,
       concurrency: options.concurrency ? parseInt(options.concurrency, 10) : undefined,
     };
 
@@ -124,6 +210,12 @@ program.action(async (options) => {
     if (checkerOptions.failOnIssues && result.issuesFound > 0) {
       process.exit(1);
     }
+
+    // Exit with code 1 if --fail-on-runtime-errors is specified and errors occurred
+    const runtimeErrors = result.summary.runtimeErrors.count + (result.loadErrors?.length ?? 0);
+    if (checkerOptions.failOnRuntimeErrors && runtimeErrors > 0) {
+      process.exit(1);
+    }
   } catch (error) {
     console.error('Error:', error instanceof Error ? error.message : error);
     process.exit(1);
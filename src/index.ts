@@ -1,9 +1,14 @@
 export { SlidevChecker } from './checker/SlidevChecker';
 export { PageNavigator } from './checker/PageNavigator';
-export { OverflowDetector } from './checker/OverflowDetector';
+export { OverflowDetector, parseSafeAreaInset } from './checker/OverflowDetector';
+export { AssetMonitor } from './checker/AssetMonitor';
+export { RuntimeErrorMonitor } from './checker/RuntimeErrorMonitor';
+export { ContentAnalyzer } from './analysis/ContentAnalyzer';
 export { ConsoleReporter } from './reporters/ConsoleReporter';
 export { JsonReporter } from './reporters/JsonReporter';
 export { HtmlReporter } from './reporters/HtmlReporter';
+export { SlidevLauncher } from './launchers/SlidevLauncher';
+export { StaticServer } from './launchers/StaticServer';
 export { ScreenshotCapture } from './utils/ScreenshotCapture';
 export { ConfigLoader } from './utils/ConfigLoader';
 export * from './types';
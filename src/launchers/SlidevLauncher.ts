@@ -0,0 +1,226 @@
+import { spawn, ChildProcess } from 'child_process';
+import { createServer } from 'net';
+import { get } from 'http';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { SLIDE_FILES } from '../parsers/SlideMapper';
+
+export interface LauncherOptions {
+  port?: number; // Preferred port (default: 3030)
+  timeout?: number; // Time to wait for the server to come up (milliseconds)
+  verbose?: boolean; // Forward Slidev output to the console
+}
+
+/**
+ * Class responsible for starting and stopping a Slidev dev server
+ */
+export class SlidevLauncher {
+  private process?: ChildProcess;
+  private url: string | null = null;
+
+  /**
+   * Start Slidev for the given project and wait until it serves the deck
+   */
+  async launch(projectPath: string, options: LauncherOptions = {}): Promise<string> {
+    if (this.isRunning()) {
+      throw new Error('Slidev is already running');
+    }
+
+    const cwd = resolve(projectPath);
+    const entry = SLIDE_FILES.find(file => existsSync(join(cwd, file)));
+    if (!entry) {
+      throw new Error(
+        `No Slidev markdown file found in ${projectPath}. Looked for: ${SLIDE_FILES.join(', ')}`
+      );
+    }
+
+    const cli = this.resolveCli(cwd);
+    if (!cli) {
+      throw new Error(
+        `Slidev CLI not found for ${projectPath}. Install @slidev/cli in the project: npm install -D @slidev/cli`
+      );
+    }
+
+    const port = await this.findAvailablePort(options.port ?? 3030);
+    const url = `http://localhost:${port}`;
+    const output: string[] = [];
+
+    // Run in its own process group so the whole Slidev/vite tree can be stopped at once
+    const child = spawn(process.execPath, [cli, entry, '--port', String(port)], {
+      cwd,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    this.process = child;
+
+    const collect = (chunk: Buffer) => {
+      const text = chunk.toString();
+      output.push(text);
+      if (output.length > 50) output.shift();
+      if (options.verbose) process.stdout.write(text);
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+
+    const exited = new Promise<never>((_, reject) => {
+      child.once('error', error => reject(error));
+      child.once('exit', code => {
+        reject(
+          new Error(`Slidev exited before it was ready (code ${code}):\n${output.join('').trim()}`)
+        );
+      });
+    });
+    child.once('exit', () => {
+      this.process = undefined;
+      this.url = null;
+    });
+
+    try {
+      await Promise.race([this.waitForServer(url, options.timeout ?? 60000), exited]);
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    this.url = url;
+    return url;
+  }
+
+  /**
+   * Stop the Slidev process (returns false if nothing was running)
+   */
+  async stop(): Promise<boolean> {
+    const child = this.process;
+    if (!child?.pid || child.exitCode !== null || child.signalCode !== null) {
+      this.process = undefined;
+      this.url = null;
+      return false;
+    }
+
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+
+    this.kill('SIGTERM');
+
+    // Force kill if Slidev does not shut down in time
+    const forceKill = setTimeout(() => this.kill('SIGKILL'), 5000);
+    await exited;
+    clearTimeout(forceKill);
+
+    this.process = undefined;
+    this.url = null;
+    return true;
+  }
+
+  /**
+   * Stop the Slidev process synchronously (for use in exit handlers)
+   */
+  kill(signal: NodeJS.Signals = 'SIGTERM'): void {
+    const child = this.process;
+    if (!child?.pid) return;
+
+    try {
+      if (process.platform === 'win32') {
+        child.kill(signal);
+      } else {
+        process.kill(-child.pid, signal);
+      }
+    } catch {
+      // Process already exited
+    }
+  }
+
+  /**
+   * Check if Slidev is running
+   */
+  isRunning(): boolean {
+    return !!this.process && this.process.exitCode === null && this.process.signalCode === null;
+  }
+
+  /**
+   * Get URL of the running Slidev server
+   */
+  getUrl(): string | null {
+    return this.url;
+  }
+
+  /**
+   * Find the bin script of the @slidev/cli installed for a project
+   * (in its node_modules or an ancestor's, as Node resolves packages)
+   *
+   * @returns null if @slidev/cli is not installed
+   */
+  private resolveCli(cwd: string): string | null {
+    for (let dir = cwd; ; dir = dirname(dir)) {
+      const packageDir = join(dir, 'node_modules', '@slidev', 'cli');
+      const packageFile = join(packageDir, 'package.json');
+      if (existsSync(packageFile)) {
+        const { bin } = JSON.parse(readFileSync(packageFile, 'utf-8'));
+        const script = typeof bin === 'string' ? bin : bin?.slidev;
+        return script ? join(packageDir, script) : null;
+      }
+      if (dirname(dir) === dir) {
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Find a free port starting from the given one
+   */
+  async findAvailablePort(startPort: number, maxAttempts = 100): Promise<number> {
+    for (let port = startPort; port < startPort + maxAttempts; port++) {
+      if (await this.isPortAvailable(port)) {
+        return port;
+      }
+    }
+
+    throw new Error(`No available port found between ${startPort} and ${startPort + maxAttempts - 1}`);
+  }
+
+  /**
+   * Check if a port can be bound
+   */
+  private isPortAvailable(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const server = createServer();
+      server.once('error', () => resolve(false));
+      server.once('listening', () => {
+        server.close(() => resolve(true));
+      });
+      server.listen(port);
+    });
+  }
+
+  /**
+   * Poll the server until it responds successfully
+   */
+  private async waitForServer(url: string, timeout: number): Promise<void> {
+    const deadline = Date.now() + timeout;
+
+    while (Date.now() < deadline) {
+      if (await this.isServerReady(url)) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    throw new Error(`Slidev did not start within ${timeout}ms (${url})`);
+  }
+
+  /**
+   * Check if the server responds with a successful status
+   */
+  private isServerReady(url: string): Promise<boolean> {
+    return new Promise(resolve => {
+      const request = get(url, response => {
+        response.resume();
+        resolve(!!response.statusCode && response.statusCode < 400);
+      });
+      request.on('error', () => resolve(false));
+      request.setTimeout(2000, () => {
+        request.destroy();
+        resolve(false);
+      });
+    });
+  }
+}
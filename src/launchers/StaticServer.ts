@@ -0,0 +1,178 @@
+import { createServer, Server, IncomingMessage, ServerResponse } from 'http';
+import { readFile, stat } from 'fs/promises';
+import { AddressInfo } from 'net';
+import { extname, join, resolve, sep } from 'path';
+
+export interface StaticServerOptions {
+  port?: number; // Port to listen on (default: any free port)
+}
+
+/**
+ * Content types for files emitted by `slidev build`
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.mjs': 'application/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain; charset=utf-8',
+  '.wasm': 'application/wasm',
+};
+
+/**
+ * Class responsible for serving a static Slidev build (SPA) over HTTP
+ */
+export class StaticServer {
+  private server?: Server;
+  private root = '';
+  private url: string | null = null;
+
+  /**
+   * Start serving the directory and return its URL
+   */
+  async start(rootDir: string, options: StaticServerOptions = {}): Promise<string> {
+    if (this.server) {
+      throw new Error('Static server is already running');
+    }
+
+    this.root = resolve(rootDir);
+
+    const rootStat = await stat(this.root).catch(() => null);
+    if (!rootStat?.isDirectory()) {
+      throw new Error(`Build output directory not found: ${rootDir}`);
+    }
+
+    const indexStat = await stat(join(this.root, 'index.html')).catch(() => null);
+    if (!indexStat?.isFile()) {
+      throw new Error(`No index.html found in ${rootDir}. Run "slidev build" first.`);
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(() => {
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port ?? 0, '127.0.0.1', () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const { port } = server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  /**
+   * Stop the server (returns false if it was not running)
+   */
+  async stop(): Promise<boolean> {
+    const server = this.server;
+    if (!server) {
+      return false;
+    }
+
+    this.server = undefined;
+    this.url = null;
+
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      // Not available before Node 18.2, where idle keep-alive connections time out instead
+      server.closeAllConnections?.();
+    });
+    return true;
+  }
+
+  /**
+   * Get URL of the running server
+   */
+  getUrl(): string | null {
+    return this.url;
+  }
+
+  /**
+   * Serve a file, falling back to index.html for client-side routes
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+
+    let filePath = this.resolvePath(pathname);
+    if (!filePath) {
+      res.writeHead(403);
+      res.end();
+      return;
+    }
+
+    let fileStat = await stat(filePath).catch(() => null);
+    if (fileStat?.isDirectory()) {
+      filePath = join(filePath, 'index.html');
+      fileStat = await stat(filePath).catch(() => null);
+    }
+
+    if (!fileStat?.isFile()) {
+      // Missing assets are real 404s; anything else is a route handled by the SPA
+      if (extname(pathname)) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      filePath = join(this.root, 'index.html');
+    }
+
+    const body = await readFile(filePath);
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+      'Content-Length': body.length,
+      'Cache-Control': 'no-cache',
+    });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  }
+
+  /**
+   * Resolve request path inside the root directory (null if it escapes the root)
+   */
+  private resolvePath(pathname: string): string | null {
+    const filePath = resolve(join(this.root, pathname));
+    if (filePath !== this.root && !filePath.startsWith(this.root + sep)) {
+      return null;
+    }
+    return filePath;
+  }
+}
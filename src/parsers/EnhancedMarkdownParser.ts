@@ -10,7 +10,7 @@
 
 import { MarkdownParser, type ParsedSlide } from './MarkdownParser.js';
 import type { ContentNode, SlidevConfig } from '../types/index.js';
-import { getLayoutContentArea } from '../calibration/LayoutDefinitions.js';
+import { LayoutRegistry } from '../calibration/LayoutDefinitions.js';
 
 /**
  * Default canvas dimensions from Slidev
@@ -33,6 +33,30 @@ export interface SlideMetrics {
   };
 }
 
+/**
+ * A state of a stepped code block: one step of a `{1|3-5|all}` highlight
+ * sequence, or one code fence of a `magic-move` block
+ */
+export interface CodeStep {
+  /** Step number (1-based) */
+  step: number;
+  /** Source lines of the step (the whole fence for highlight steps) */
+  lineStart: number;
+  lineEnd: number;
+  /** Highlighted line ranges ("3-5", "all") for highlight steps */
+  highlight?: string;
+  /** Code shown at this step */
+  code: string;
+}
+
+/**
+ * Content of a named slot (`::right::`, `::default::`)
+ */
+export interface SlideSlot {
+  name: string;
+  contentNodes: ContentNode[];
+}
+
 /**
  * Parsed slide with enhanced content information
  */
@@ -41,6 +65,7 @@ export interface SlideContent {
   rawContent: string;
   layout: string;
   contentNodes: ContentNode[];
+  slots: SlideSlot[];
   contentArea: {
     width: number;
     height: number;
@@ -76,6 +101,15 @@ export interface SlideAnalysisSummary {
  */
 export class EnhancedMarkdownParser extends MarkdownParser {
   private warnings: string[] = [];
+  private layouts: LayoutRegistry;
+
+  /**
+   * @param layouts Custom layouts used to size each slide's content area
+   */
+  constructor(layouts: LayoutRegistry = new LayoutRegistry()) {
+    super();
+    this.layouts = layouts;
+  }
 
   /**
    * Parse a complete Slidev presentation
@@ -107,7 +141,7 @@ export class EnhancedMarkdownParser extends MarkdownParser {
   /**
    * Extract global configuration from presentation frontmatter
    */
-  private extractGlobalConfig(markdown: string): SlidevConfig {
+  extractGlobalConfig(markdown: string): SlidevConfig {
     const frontmatter = this.extractFrontmatter(markdown);
 
     return {
@@ -146,47 +180,152 @@ export class EnhancedMarkdownParser extends MarkdownParser {
 
   /**
    * Simple YAML-like parser for frontmatter
+   *
+   * Supports nested maps, block lists (`- item`), flow lists and maps
+   * (`[a, b]`, `{ key: value }`) and block scalars (`|`, `>`).
    */
   private parseYamlLike(content: string): Record<string, unknown> {
-    const result: Record<string, unknown> = {};
-    const lines = content.split('\n');
-    let currentIndentLevel = 0;
-    let nestedObject: Record<string, unknown> | null = null;
+    const lines = content
+      .split('\n')
+      .filter(line => line.trim() && !line.trim().startsWith('#'));
+
+    if (lines.length === 0) {
+      return {};
+    }
 
     try {
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed.startsWith('#')) continue;
+      const [result] = this.parseYamlBlock(lines, 0, this.getIndent(lines[0]));
+      if (result && typeof result === 'object' && !Array.isArray(result)) {
+        return result as Record<string, unknown>;
+      }
+    } catch {
+      this.warnings.push('Failed to parse frontmatter, using defaults');
+    }
 
-        const indent = line.length - line.trimStart().length;
-        const colonIndex = trimmed.indexOf(':');
+    return {};
+  }
 
-        if (colonIndex === -1) continue;
+  /**
+   * Get indentation width of a line
+   */
+  private getIndent(line: string): number {
+    return line.length - line.trimStart().length;
+  }
+
+  /**
+   * Parse the lines at the given indentation into a map or list
+   *
+   * @returns Parsed value and index of the first line after the block
+   */
+  private parseYamlBlock(lines: string[], start: number, indent: number): [unknown, number] {
+    if (/^-(\s|$)/.test(lines[start].trim())) {
+      return this.parseYamlList(lines, start, indent);
+    }
+
+    const result: Record<string, unknown> = {};
+    let i = start;
+
+    while (i < lines.length && this.getIndent(lines[i]) >= indent) {
+      const line = lines[i];
+      const trimmed = line.trim();
+      const colonIndex = trimmed.indexOf(':');
+      i++;
+
+      // Lines indented deeper than the block without a parent key are ignored
+      if (this.getIndent(line) > indent || colonIndex === -1) continue;
 
-        const key = trimmed.substring(0, colonIndex).trim();
-        const value = trimmed.substring(colonIndex + 1).trim();
-
-        if (indent === 0) {
-          // Top-level key
-          if (value === '' || value === '|' || value === '>') {
-            // Nested object or multi-line
-            currentIndentLevel = indent;
-            nestedObject = {};
-            result[key] = nestedObject;
-          } else {
-            result[key] = this.parseValue(value);
-            nestedObject = null;
-          }
-        } else if (nestedObject && indent > currentIndentLevel) {
-          // Nested property
-          nestedObject[key] = this.parseValue(value);
+      const key = trimmed.substring(0, colonIndex).trim().replace(/^["']|["']$/g, '');
+      const value = trimmed.substring(colonIndex + 1).trim();
+
+      if (value === '|' || value === '>' || value === '|-' || value === '>-') {
+        // Block scalar
+        const blockLines: string[] = [];
+        while (i < lines.length && this.getIndent(lines[i]) > indent) {
+          blockLines.push(lines[i].trim());
+          i++;
+        }
+        result[key] = blockLines.join(value.startsWith('|') ? '\n' : ' ');
+      } else if (value === '') {
+        const next = lines[i];
+        const nestedIndent = next ? this.getIndent(next) : -1;
+        if (nestedIndent > indent || (nestedIndent === indent && /^-(\s|$)/.test(next.trim()))) {
+          [result[key], i] = this.parseYamlBlock(lines, i, nestedIndent);
+        } else {
+          result[key] = '';
         }
+      } else {
+        result[key] = this.parseValue(value);
       }
-    } catch {
-      this.warnings.push('Failed to parse frontmatter, using defaults');
     }
 
-    return result;
+    return [result, i];
+  }
+
+  /**
+   * Parse a block list (`- item`)
+   */
+  private parseYamlList(lines: string[], start: number, indent: number): [unknown[], number] {
+    const result: unknown[] = [];
+    let i = start;
+
+    while (i < lines.length && this.getIndent(lines[i]) === indent && /^-(\s|$)/.test(lines[i].trim())) {
+      const item = lines[i].trim().substring(1).trim();
+
+      if (item === '') {
+        const next = lines[i + 1];
+        if (next && this.getIndent(next) > indent) {
+          let value: unknown;
+          [value, i] = this.parseYamlBlock(lines, i + 1, this.getIndent(next));
+          result.push(value);
+        } else {
+          result.push(null);
+          i++;
+        }
+      } else if (/^[^\s"'{[][^:]*:(\s|$)/.test(item)) {
+        // Map item: parse "- key: value" and its following keys as a map at the key's column
+        const column = lines[i].indexOf(item);
+        const mapLines = [...lines];
+        mapLines[i] = ' '.repeat(column) + item;
+        let value: unknown;
+        [value, i] = this.parseYamlBlock(mapLines, i, column);
+        result.push(value);
+      } else {
+        result.push(this.parseValue(item));
+        i++;
+      }
+    }
+
+    return [result, i];
+  }
+
+  /**
+   * Split the inside of a flow list or map at top-level commas
+   */
+  private splitFlow(content: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let current = '';
+
+    for (const char of content) {
+      if (quote) {
+        if (char === quote) quote = '';
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    if (current.trim()) parts.push(current.trim());
+    return parts;
   }
 
   /**
@@ -198,6 +337,21 @@ export class EnhancedMarkdownParser extends MarkdownParser {
       return value.slice(1, -1);
     }
 
+    // Flow lists and maps
+    if (value.startsWith('[') && value.endsWith(']')) {
+      return this.splitFlow(value.slice(1, -1)).map(item => this.parseValue(item));
+    }
+    if (value.startsWith('{') && value.endsWith('}')) {
+      const result: Record<string, unknown> = {};
+      for (const entry of this.splitFlow(value.slice(1, -1))) {
+        const colonIndex = entry.indexOf(':');
+        if (colonIndex === -1) continue;
+        const key = entry.substring(0, colonIndex).trim().replace(/^["']|["']$/g, '');
+        result[key] = this.parseValue(entry.substring(colonIndex + 1).trim());
+      }
+      return result;
+    }
+
     // Numbers
     if (/^-?\d+$/.test(value)) {
       return parseInt(value, 10);
@@ -231,7 +385,7 @@ export class EnhancedMarkdownParser extends MarkdownParser {
     // Calculate content area based on layout
     const canvasWidth = globalConfig.canvasWidth ?? DEFAULT_CANVAS_WIDTH;
     const canvasHeight = this.calculateCanvasHeight(canvasWidth, globalConfig.aspectRatio ?? '16/9');
-    const layoutArea = getLayoutContentArea(layout, canvasWidth, canvasHeight);
+    const layoutArea = this.layouts.getContentArea(layout, canvasWidth, canvasHeight);
 
     // Extract content nodes
     const contentNodes = this.extractContentNodes(slide.content, index, slide.startLine);
@@ -244,6 +398,7 @@ export class EnhancedMarkdownParser extends MarkdownParser {
       rawContent: slide.content,
       layout,
       contentNodes,
+      slots: this.splitSlots(contentNodes),
       contentArea: {
         width: layoutArea.slots[0]?.width ?? 868,
         height: layoutArea.slots[0]?.height ?? 472,
@@ -259,7 +414,7 @@ export class EnhancedMarkdownParser extends MarkdownParser {
    * Calculate canvas height from width and aspect ratio
    * Slidev uses 552 as default height for 980 width with 16/9 aspect ratio
    */
-  private calculateCanvasHeight(width: number, aspectRatio: string): number {
+  calculateCanvasHeight(width: number, aspectRatio: string): number {
     // If using default width and default aspect ratio, return default height
     if (width === DEFAULT_CANVAS_WIDTH && (aspectRatio === '16/9' || !aspectRatio)) {
       return DEFAULT_CANVAS_HEIGHT;
@@ -461,8 +616,36 @@ export class EnhancedMarkdownParser extends MarkdownParser {
     return nodes;
   }
 
+  /**
+   * Split content nodes into named slots at slot separators
+   *
+   * Content before the first separator belongs to the default slot.
+   * Repeated slot names are merged, like Slidev does.
+   */
+  private splitSlots(nodes: ContentNode[]): SlideSlot[] {
+    const slots = new Map<string, ContentNode[]>();
+    let current = 'default';
+
+    for (const node of nodes) {
+      if (node.type === 'slot-separator') {
+        current = node.metadata.slotName as string;
+        continue;
+      }
+
+      if (!slots.has(current)) {
+        slots.set(current, []);
+      }
+      slots.get(current)!.push(node);
+    }
+
+    return Array.from(slots, ([name, contentNodes]) => ({ name, contentNodes }));
+  }
+
   /**
    * Parse a code block
+   *
+   * Handles fence info such as ```` ```ts {1|3-5|all} ```` (highlight steps)
+   * and ````` ````md magic-move ````` blocks, whose inner fences are the steps.
    */
   private parseCodeBlock(
     lines: string[],
@@ -471,15 +654,19 @@ export class EnhancedMarkdownParser extends MarkdownParser {
     slideStartLine: number
   ): { node: ContentNode | null; endIndex: number } {
     const startLine = lines[startIdx];
-    const langMatch = startLine.match(/^```(\w*)$/);
-    const language = langMatch ? langMatch[1] : '';
+    const fenceMatch = startLine.trim().match(/^(`{3,})([\w-]*)\s*(.*)$/);
+    const fence = fenceMatch?.[1] ?? '```';
+    const language = fenceMatch?.[2] ?? '';
+    const info = fenceMatch?.[3] ?? '';
 
+    // A fence is closed by at least as many backticks as it was opened with
+    const closingFence = new RegExp(`^\`{${fence.length},}$`);
     const codeLines: string[] = [];
     let endIdx = startIdx + 1;
     let closed = false;
 
     while (endIdx < lines.length) {
-      if (lines[endIdx].trim() === '```') {
+      if (closingFence.test(lines[endIdx].trim())) {
         closed = true;
         break;
       }
@@ -492,24 +679,104 @@ export class EnhancedMarkdownParser extends MarkdownParser {
     }
 
     const content = codeLines.join('\n');
+    const lineStart = slideStartLine + startIdx;
+    const lineEnd = slideStartLine + endIdx;
+    const magicMove = /\bmagic-move\b/.test(info);
+    const steps = magicMove
+      ? this.parseMagicMoveSteps(codeLines, lineStart + 1)
+      : this.parseHighlightSteps(info, lineStart, lineEnd, content);
+
+    const metadata: Record<string, unknown> = {
+      language,
+      // Magic-move blocks show one step at a time
+      lineCount: magicMove
+        ? Math.max(0, ...steps.map(step => step.code.split('\n').length))
+        : codeLines.length,
+    };
+    if (magicMove) {
+      metadata.magicMove = true;
+    }
+    if (steps.length > 0) {
+      metadata.steps = steps;
+    }
 
     return {
       node: {
         type: 'code-block',
-        lineStart: slideStartLine + startIdx,
-        lineEnd: slideStartLine + endIdx,
+        lineStart,
+        lineEnd,
         slideIndex,
         content: lines.slice(startIdx, endIdx + 1).join('\n'),
         charCount: content.length,
-        metadata: {
-          language,
-          lineCount: codeLines.length,
-        },
+        metadata,
       },
       endIndex: endIdx,
     };
   }
 
+  /**
+   * Get the steps of a `{1|3-5|all}` line highlight sequence
+   *
+   * Other brace groups in the fence info (`{lines:true}`) are options.
+   */
+  private parseHighlightSteps(
+    info: string,
+    lineStart: number,
+    lineEnd: number,
+    code: string
+  ): CodeStep[] {
+    const highlight = (info.match(/\{[^}]*\}/g) ?? [])
+      .map(group => group.slice(1, -1).trim())
+      .find(group => !group.includes(':'));
+    const ranges = highlight?.split('|').map(range => range.trim()) ?? [];
+
+    if (ranges.length < 2) {
+      return [];
+    }
+
+    return ranges.map((range, index) => ({
+      step: index + 1,
+      lineStart,
+      lineEnd,
+      highlight: range,
+      code,
+    }));
+  }
+
+  /**
+   * Get the inner code fences of a magic-move block as steps
+   *
+   * @param firstLine Source line of the first inner line
+   */
+  private parseMagicMoveSteps(codeLines: string[], firstLine: number): CodeStep[] {
+    const steps: CodeStep[] = [];
+    let i = 0;
+
+    while (i < codeLines.length) {
+      const fenceMatch = codeLines[i].trim().match(/^(`{3,})/);
+      if (!fenceMatch) {
+        i++;
+        continue;
+      }
+
+      const closingFence = new RegExp(`^\`{${fenceMatch[1].length},}$`);
+      let end = i + 1;
+      while (end < codeLines.length && !closingFence.test(codeLines[end].trim())) {
+        end++;
+      }
+
+      steps.push({
+        step: steps.length + 1,
+        lineStart: firstLine + i,
+        lineEnd: firstLine + Math.min(end, codeLines.length - 1),
+        code: codeLines.slice(i + 1, end).join('\n'),
+      });
+      i = end + 1;
+    }
+
+    return steps;
+  }
+
   /**
    * Parse a list
    */
@@ -231,6 +231,42 @@ export class MarkdownParser {
     return null;
   }
 
+  /**
+   * Find the line referencing an asset URL (Markdown image, HTML tag or frontmatter)
+   *
+   * Rendered URLs are absolute, so the path and then the file name are tried
+   * after the URL as written.
+   */
+  findAssetReference(slideContent: string, src: string, slideStartLine: number): FoundElement | null {
+    const lines = slideContent.split('\n');
+    let paths = [src.split(/[?#]/)[0]];
+
+    try {
+      const { pathname } = new URL(src);
+      paths = [pathname, decodeURIComponent(pathname)];
+    } catch {
+      // Not an absolute URL, search as written
+    }
+
+    const candidates = [src, ...paths, ...paths.map(path => path.split('/').pop() || '')];
+
+    for (const candidate of candidates) {
+      if (candidate.length < 3) continue;
+
+      for (let i = 0; i < lines.length; i++) {
+        if (lines[i].includes(candidate)) {
+          return {
+            line: slideStartLine + i,
+            lineEnd: slideStartLine + i,
+            content: lines[i],
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Search for element by text content (partial match)
    */
@@ -1,7 +1,45 @@
 import { readFile } from 'fs/promises';
 import { join } from 'path';
-import { Issue, SourceInfo } from '../types';
+import {
+  CodeBlockState,
+  ContentNode,
+  DeclaredFont,
+  ElementInfo,
+  ExpectedSlideContent,
+  Issue,
+  SourceInfo,
+} from '../types';
 import { MarkdownParser, ParsedSlide } from './MarkdownParser';
+import { EnhancedMarkdownParser, CodeStep, ParsedPresentation } from './EnhancedMarkdownParser';
+
+/**
+ * Markdown entry files searched in a Slidev project directory (in priority order)
+ */
+export const SLIDE_FILES = ['slides.md', 'index.md', 'README.md'];
+
+/**
+ * Code block languages rendered as diagrams or editors instead of a `pre`
+ */
+const NON_PRE_LANGUAGES = new Set(['mermaid', 'plantuml']);
+
+/**
+ * CSS generic font families (always available, never a web font)
+ */
+const GENERIC_FONT_FAMILIES = new Set([
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+  'ui-serif',
+  'ui-sans-serif',
+  'ui-monospace',
+  'ui-rounded',
+  'math',
+  'emoji',
+  'fangsong',
+]);
 
 /**
  * Map slide numbers to Markdown source locations
@@ -10,6 +48,8 @@ export class SlideMapper {
   private parser: MarkdownParser;
   private slides: ParsedSlide[] = [];
   private sourceFile: string = '';
+  private presentation?: ParsedPresentation;
+  private lines: string[] = [];
 
   constructor() {
     this.parser = new MarkdownParser();
@@ -20,13 +60,13 @@ export class SlideMapper {
    */
   async loadProject(projectPath: string): Promise<void> {
     // Look for slides.md or index.md
-    const possibleFiles = ['slides.md', 'index.md', 'README.md'];
-
-    for (const file of possibleFiles) {
+    for (const file of SLIDE_FILES) {
       try {
         const filePath = join(projectPath, file);
         const content = await readFile(filePath, 'utf-8');
         this.slides = this.parser.parseSlides(content);
+        this.presentation = new EnhancedMarkdownParser().parsePresentation(content);
+        this.lines = content.split('\n');
         this.sourceFile = file;
         return;
       } catch (error) {
@@ -36,7 +76,7 @@ export class SlideMapper {
     }
 
     throw new Error(
-      `No Slidev markdown file found in ${projectPath}. Looked for: ${possibleFiles.join(', ')}`
+      `No Slidev markdown file found in ${projectPath}. Looked for: ${SLIDE_FILES.join(', ')}`
     );
   }
 
@@ -44,41 +84,224 @@ export class SlideMapper {
    * Add source information to an issue
    */
   addSourceInfo(slideNumber: number, issue: Issue): Issue {
+    // A blank slide or font fallback concerns all of its content, not one element
+    const source =
+      issue.type === 'blank-slide' || issue.type === 'font-fallback'
+        ? this.findSlideContent(slideNumber)
+        : this.findSource(slideNumber, issue.element);
+    const mapped = source ? { ...issue, source } : issue;
+
+    // Overlaps involve a second element, which may come from other lines
+    if (mapped.type === 'element-overlap') {
+      const overlappedSource = this.findSource(slideNumber, mapped.details.overlappedElement);
+      if (overlappedSource) {
+        return { ...mapped, details: { ...mapped.details, overlappedSource } };
+      }
+    }
+
+    return mapped;
+  }
+
+  /**
+   * Get the block elements the Markdown of a slide should render
+   *
+   * @returns null if the slide is not in the Markdown
+   */
+  getExpectedContent(slideNumber: number): ExpectedSlideContent | null {
+    const slide = this.presentation?.slides[slideNumber - 1];
+    if (!slide) {
+      return null;
+    }
+
+    const nodes = slide.contentNodes.filter(
+      node => node.type !== 'slot-separator' && node.type !== 'slidev-component'
+    );
+    const codeBlocks = nodes.filter(node => this.rendersPre(node));
+
+    return {
+      headings: nodes.filter(node => node.type === 'heading').length,
+      lists: nodes.filter(node => node.type === 'list').length,
+      codeBlocks: codeBlocks.length,
+      images: nodes.filter(node => node.type === 'image').length,
+      tables: nodes.filter(node => node.type === 'table').length,
+      blocks: nodes.length,
+    };
+  }
+
+  /**
+   * Get the font families declared in the `fonts` headmatter (generic families excluded)
+   */
+  getDeclaredFonts(): DeclaredFont[] {
+    const fonts = this.presentation?.globalConfig.fonts ?? {};
+    const declared: DeclaredFont[] = [];
+
+    for (const role of ['sans', 'serif', 'mono'] as const) {
+      const value = fonts[role];
+      const families = (Array.isArray(value) ? value : String(value ?? '').split(','))
+        .map(family => String(family).trim().replace(/^["']|["']$/g, ''))
+        .filter(family => family && !GENERIC_FONT_FAMILIES.has(family.toLowerCase()));
+
+      for (const family of families) {
+        if (!declared.some(font => font.family === family)) {
+          declared.push({ family, role });
+        }
+      }
+    }
+
+    return declared;
+  }
+
+  /**
+   * Find the lines holding the content of a slide (frontmatter excluded)
+   */
+  private findSlideContent(slideNumber: number): SourceInfo | null {
+    const slide = this.presentation?.slides[slideNumber - 1];
+    if (!slide) {
+      return null;
+    }
+
+    const nodes = slide.contentNodes;
+    const line = nodes.length > 0 ? nodes[0].lineStart : slide.lineStart;
+    const lineEnd = nodes.length > 0 ? nodes[nodes.length - 1].lineEnd : slide.lineEnd;
+    return {
+      file: this.sourceFile,
+      line,
+      lineEnd,
+      content: this.lines.slice(line - 1, lineEnd).join('\n'),
+    };
+  }
+
+  /**
+   * Find the source location of a rendered element
+   */
+  private findSource(slideNumber: number, elementInfo: ElementInfo): SourceInfo | null {
     // Slide numbers start from 1
     const slideIndex = slideNumber - 1;
 
     if (slideIndex < 0 || slideIndex >= this.slides.length) {
-      return issue;
+      return null;
     }
 
     const slide = this.slides[slideIndex];
 
+    // Elements inside a code block map to its fence (and step), others by element type
+    const codeBlock = elementInfo.codeBlock
+      ? this.findCodeBlock(slideIndex, elementInfo.codeBlock)
+      : null;
+    if (codeBlock) {
+      return { file: this.sourceFile, ...codeBlock };
+    }
+
     // Search for corresponding location in Markdown based on element type
-    const element = this.findElementInSlide(slide, issue);
+    const element = this.findElementInSlide(slide, elementInfo);
 
     if (element) {
-      const source: SourceInfo = {
+      return {
         file: this.sourceFile,
         line: element.line,
         lineEnd: element.lineEnd,
         content: element.content,
       };
+    }
 
-      return {
-        ...issue,
-        source,
-      };
+    return null;
+  }
+
+  /**
+   * Find the code fence a rendered code block comes from, and the step it shows
+   */
+  private findCodeBlock(
+    slideIndex: number,
+    state: CodeBlockState
+  ): Omit<SourceInfo, 'file'> | null {
+    const node = this.presentation?.slides[slideIndex]?.contentNodes.filter(
+      n => this.rendersPre(n)
+    )[state.index];
+    if (!node) {
+      return null;
     }
 
-    return issue;
+    const steps = (node.metadata.steps as CodeStep[] | undefined) ?? [];
+    const step = node.metadata.magicMove
+      ? this.findMagicMoveStep(steps, state)
+      : this.findHighlightStep(steps, state);
+
+    if (!step) {
+      return { line: node.lineStart, lineEnd: node.lineEnd, content: node.content };
+    }
+
+    return {
+      line: step.lineStart,
+      lineEnd: step.lineEnd,
+      content: this.lines.slice(step.lineStart - 1, step.lineEnd).join('\n'),
+      codeStep: { step: step.step, total: steps.length, highlight: step.highlight },
+    };
+  }
+
+  /**
+   * Whether a content node is a code block rendered as a `pre`
+   * (diagrams and Monaco editors are not)
+   */
+  private rendersPre(node: ContentNode): boolean {
+    if (node.type !== 'code-block') return false;
+    const fence = node.content.split('\n')[0];
+    return !NON_PRE_LANGUAGES.has(node.metadata.language as string) && !/\bmonaco\b/.test(fence);
+  }
+
+  /**
+   * Find the magic-move step whose code is shown
+   */
+  private findMagicMoveStep(steps: CodeStep[], state: CodeBlockState): CodeStep | undefined {
+    const normalize = (text: string) => text.replace(/\s+/g, '');
+    const shown = normalize(state.text);
+    return steps.find(step => normalize(step.code) === shown);
+  }
+
+  /**
+   * Find the highlight step whose lines are highlighted
+   */
+  private findHighlightStep(steps: CodeStep[], state: CodeBlockState): CodeStep | undefined {
+    return steps.find(step => {
+      const total = step.code.split('\n').length;
+      const expected = this.parseLineRanges(step.highlight ?? '', total);
+      // Nothing dimmed means every line is highlighted
+      const highlighted =
+        state.highlightedLines.length > 0
+          ? state.highlightedLines
+          : Array.from({ length: total }, (_, i) => i + 1);
+      return (
+        expected.length === highlighted.length &&
+        expected.every((line, i) => line === highlighted[i])
+      );
+    });
+  }
+
+  /**
+   * Expand highlight ranges ("1,3-5", "all") to sorted line numbers (1-based)
+   */
+  private parseLineRanges(ranges: string, total: number): number[] {
+    const value = ranges.trim();
+    if (value === '' || value === '*' || value === 'all') {
+      return Array.from({ length: total }, (_, i) => i + 1);
+    }
+
+    const lines = new Set<number>();
+    for (const part of value.split(',')) {
+      const [start, end] = part.split('-').map(n => parseInt(n.trim(), 10));
+      if (isNaN(start)) continue;
+      for (let line = start; line <= (isNaN(end) ? start : end); line++) {
+        if (line <= total) lines.add(line);
+      }
+    }
+    return [...lines].sort((a, b) => a - b);
   }
 
   /**
    * Search for element in slide
    */
-  private findElementInSlide(slide: ParsedSlide, issue: Issue): { line: number; lineEnd: number; content: string } | null {
-    const tag = issue.element.tag;
-    const text = issue.element.text;
+  private findElementInSlide(slide: ParsedSlide, elementInfo: ElementInfo): { line: number; lineEnd: number; content: string } | null {
+    const tag = elementInfo.tag;
+    const text = elementInfo.text;
 
     // For list items, use specialized list item finder
     if (tag === 'li' && text) {
@@ -105,6 +328,14 @@ export class SlideMapper {
       }
     }
 
+    // For images and other assets, find the line referencing the src
+    if (elementInfo.src) {
+      const found = this.parser.findAssetReference(slide.content, elementInfo.src, slide.startLine);
+      if (found) {
+        return found;
+      }
+    }
+
     // Search based on tag name for block elements
     const tagMap: { [key: string]: string } = {
       h1: 'h1',
@@ -123,15 +354,6 @@ export class SlideMapper {
       }
     }
 
-    // For images, also check src attribute
-    if (tag === 'img' && issue.element.src) {
-      const imgSrc = issue.element.src.split('/').pop() || '';
-      const found = this.parser.findElementByText(slide.content, imgSrc, slide.startLine);
-      if (found) {
-        return found;
-      }
-    }
-
     // If not found by tag name, search by text content
     if (text) {
       const found = this.parser.findElementByText(slide.content, text, slide.startLine);
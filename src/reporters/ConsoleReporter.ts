@@ -1,5 +1,13 @@
 import chalk from 'chalk';
-import { CheckResult, Issue } from '../types';
+import {
+  BrokenAssetIssue,
+  CheckResult,
+  ContentAnalysisResult,
+  Issue,
+  RenderWait,
+  RuntimeError,
+  SlideContentCounts,
+} from '../types';
 
 export class ConsoleReporter {
   private verbose: boolean;
@@ -8,6 +16,65 @@ export class ConsoleReporter {
     this.verbose = verbose;
   }
 
+  /**
+   * Report static pre-check results
+   */
+  reportPreCheck(analysis: ContentAnalysisResult): void {
+    this.reportAnalysisWarnings(analysis);
+
+    const analyzed = analysis.slideAnalysis.filter(slide => !slide.skipped);
+    console.log(
+      chalk.bold(
+        `Pre-check: ${analyzed.length} slides analyzed in ${analysis.analysisTime}ms`
+      )
+    );
+
+    const risky = analyzed.filter(slide => slide.riskLevel !== 'low');
+    if (risky.length === 0) {
+      console.log(chalk.green('  ✓ No risky slides predicted'));
+      console.log();
+      return;
+    }
+
+    risky.forEach(slide => {
+      const color = slide.riskLevel === 'high' ? chalk.red : chalk.yellow;
+      const count = slide.predictedIssues.length;
+      console.log(
+        color(
+          `  ⚠ Slide ${slide.slideIndex + 1}: ${slide.riskLevel} risk (complexity ${slide.complexity.toFixed(2)}, ${count} predicted issue${count === 1 ? '' : 's'})`
+        )
+      );
+
+      if (this.verbose) {
+        slide.predictedIssues.forEach(issue => {
+          const lines =
+            issue.lineRange.start === issue.lineRange.end
+              ? `${issue.lineRange.start}`
+              : `${issue.lineRange.start}-${issue.lineRange.end}`;
+          console.log(
+            chalk.gray(`    - ${issue.element} (line ${lines}): ${issue.recommendation}`)
+          );
+        });
+      }
+    });
+    console.log();
+  }
+
+  /**
+   * Report problems found while analyzing the Markdown (e.g. unknown layouts)
+   */
+  reportAnalysisWarnings(analysis: ContentAnalysisResult): void {
+    const warnings = analysis.warnings ?? [];
+    if (warnings.length === 0) {
+      return;
+    }
+
+    warnings.forEach(warning => {
+      console.log(chalk.yellow(`⚠ ${warning}`));
+    });
+    console.log();
+  }
+
   /**
    * Report slide check start
    */
@@ -18,7 +85,7 @@ export class ConsoleReporter {
   /**
    * Report slide issues
    */
-  reportSlideIssues(_slideNumber: number, issues: Issue[]): void {
+  reportSlideIssues(slideNumber: number, issues: Issue[]): void {
     if (issues.length === 0) {
       console.log(chalk.green('  ✓ No issues found'));
       return;
@@ -28,24 +95,85 @@ export class ConsoleReporter {
       // Normal mode: Show issue type only
       const types = new Set(issues.map(i => i.type));
       types.forEach(type => {
-        const message = this.getIssueTypeMessage(type);
-        console.log(chalk.yellow(`  ⚠ ${message}`));
+        const predicted = issues.every(i => i.type !== type || i.predicted);
+        const message = this.getIssueTypeMessage(type, predicted);
+        const clicks = [
+          ...new Set(issues.filter(i => i.type === type && i.click).map(i => i.click!)),
+        ];
+        const location = clicks.length > 0 ? ` (${this.formatLocation(slideNumber, clicks)})` : '';
+        console.log(chalk.yellow(`  ⚠ ${message}${location}`));
       });
     } else {
       // Verbose mode: Show details of each issue
       issues.forEach(issue => {
-        this.reportIssueDetails(issue);
+        this.reportIssueDetails(slideNumber, issue);
       });
     }
   }
 
+  /**
+   * Report slide warnings (they do not fail the check)
+   */
+  reportSlideWarnings(slideNumber: number, warnings: Issue[]): void {
+    if (!this.verbose) {
+      new Set(warnings.map(w => w.type)).forEach(type => {
+        console.log(chalk.yellow(`  ⚠ ${this.getIssueTypeMessage(type)} (warning)`));
+      });
+    } else {
+      warnings.forEach(warning => {
+        this.reportIssueDetails(slideNumber, warning);
+      });
+    }
+  }
+
+  /**
+   * Report console errors and page exceptions that occurred while the deck loaded
+   */
+  reportLoadErrors(errors: RuntimeError[]): void {
+    if (errors.length === 0) {
+      return;
+    }
+    console.log(chalk.red('Errors while loading the deck:'));
+    this.reportRuntimeErrors(errors);
+  }
+
+  /**
+   * Report console errors and page exceptions that occurred on a slide
+   */
+  reportRuntimeErrors(errors: RuntimeError[]): void {
+    errors.forEach(error => {
+      const label = error.type === 'exception' ? 'Uncaught exception' : 'Console error';
+      console.log(chalk.red(`  ✗ ${label}: ${this.truncate(error.message)}`));
+      if (this.verbose && error.location) {
+        console.log(chalk.gray(`    - At: ${error.location}`));
+      }
+    });
+  }
+
+  /**
+   * Report how long a slide took to settle (always when it did not settle in time)
+   */
+  reportRenderWait(wait: RenderWait): void {
+    if (!wait.settled) {
+      console.log(
+        chalk.yellow(`  ⚠ Rendering did not settle within ${wait.time}ms; measured as rendered so far`)
+      );
+    } else if (this.verbose) {
+      console.log(chalk.gray(`  Settled in ${wait.time}ms`));
+    }
+  }
+
   /**
    * Report issue details (verbose mode)
    */
-  private reportIssueDetails(issue: Issue): void {
-    const typeMessage = this.getIssueTypeMessage(issue.type);
+  private reportIssueDetails(slideNumber: number, issue: Issue): void {
+    const typeMessage = this.getIssueTypeMessage(issue.type, issue.predicted);
     console.log(chalk.yellow(`  ⚠ ${typeMessage}:`));
 
+    if (issue.click) {
+      console.log(chalk.gray(`    - At: ${this.formatLocation(slideNumber, [issue.click])}`));
+    }
+
     // Element info
     const tagAndClass = issue.element.class
       ? `${issue.element.tag}.${issue.element.class}`
@@ -54,7 +182,22 @@ export class ConsoleReporter {
     console.log(chalk.gray(`      Selector: ${issue.element.selector}`));
 
     // Detail info
-    if (issue.type === 'text-overflow') {
+    if (issue.prediction) {
+      // Predicted issues carry estimates instead of measured pixel details
+      console.log(
+        chalk.gray(
+          `      Risk: ${issue.prediction.riskLevel} (confidence: ${issue.prediction.confidence})`
+        )
+      );
+      if (issue.prediction.measuredValue !== undefined) {
+        const limit =
+          issue.prediction.thresholdValue !== undefined
+            ? ` (limit ${issue.prediction.thresholdValue})`
+            : '';
+        console.log(chalk.gray(`      Estimated: ${issue.prediction.measuredValue}${limit}`));
+      }
+      console.log(chalk.gray(`      Recommendation: ${issue.prediction.recommendation}`));
+    } else if (issue.type === 'text-overflow') {
       console.log(
         chalk.gray(
           `      Container width: ${issue.details.containerWidth}px`
@@ -126,18 +269,141 @@ export class ConsoleReporter {
         chalk.gray(`      Content height: ${issue.details.contentHeight}px`)
       );
       console.log(chalk.gray(`      Overflow: ${issue.details.overflow}px`));
+    } else if (issue.type === 'element-overlap') {
+      const overlapped = issue.details.overlappedElement;
+      const intersection = issue.details.intersection;
+      console.log(chalk.gray(`      Overlaps: ${overlapped.selector}`));
+      console.log(
+        chalk.gray(
+          `      Intersection: ${intersection.width}px × ${intersection.height}px (${Math.round(intersection.ratio * 100)}% of the smaller element)`
+        )
+      );
+
+      if (issue.element.text) {
+        console.log(chalk.red(`      Content: "${this.truncate(issue.element.text)}"`));
+      }
+      if (overlapped.text) {
+        console.log(chalk.red(`      Covered content: "${this.truncate(overlapped.text)}"`));
+      }
+
+      const overlappedSource = issue.details.overlappedSource;
+      if (overlappedSource) {
+        console.log(
+          chalk.cyan(
+            `      Covered source: ${overlappedSource.file}:${overlappedSource.line}${
+              overlappedSource.lineEnd !== overlappedSource.line ? `-${overlappedSource.lineEnd}` : ''
+            }`
+          )
+        );
+      }
+    } else if (issue.type === 'clipped-content') {
+      const hidden = issue.details.hidden;
+      console.log(chalk.gray(`      Clipped by: ${issue.details.container.selector}`));
+
+      const edges: string[] = [];
+      if (hidden.left > 0) edges.push(`left ${hidden.left}px`);
+      if (hidden.right > 0) edges.push(`right ${hidden.right}px`);
+      if (hidden.top > 0) edges.push(`top ${hidden.top}px`);
+      if (hidden.bottom > 0) edges.push(`bottom ${hidden.bottom}px`);
+      console.log(chalk.gray(`      Hidden: ${edges.join(', ')}`));
+
+      if (issue.element.text) {
+        console.log(chalk.red(`      Content: "${this.truncate(issue.element.text)}"`));
+      }
+    } else if (issue.type === 'truncated-text') {
+      const details = issue.details;
+      const truncation =
+        details.truncation === 'line-clamp'
+          ? `line-clamp (${details.visibleLines} of ${details.totalLines} lines shown, ${details.hiddenLines} hidden)`
+          : `ellipsis (${details.hiddenCharacters} characters hidden)`;
+      console.log(chalk.gray(`      Truncated by: ${truncation}`));
+      console.log(chalk.gray(`      Visible text: "${details.visibleText}…"`));
+      console.log(chalk.red(`      Full text: "${details.fullText}"`));
+    } else if (issue.type === 'safe-area') {
+      const intrusion = issue.details.intrusion;
+      const edges: string[] = [];
+      if (intrusion.left > 0) edges.push(`left ${intrusion.left}px`);
+      if (intrusion.right > 0) edges.push(`right ${intrusion.right}px`);
+      if (intrusion.top > 0) edges.push(`top ${intrusion.top}px`);
+      if (intrusion.bottom > 0) edges.push(`bottom ${intrusion.bottom}px`);
+      console.log(chalk.gray(`      Inside margin: ${edges.join(', ')}`));
+
+      if (issue.element.text) {
+        console.log(chalk.red(`      Content: "${this.truncate(issue.element.text)}"`));
+      }
+    } else if (issue.type === 'broken-asset') {
+      console.log(chalk.red(`      URL: ${issue.details.url}`));
+      console.log(
+        chalk.gray(`      Reason: ${this.formatAssetFailure(issue.details)} (${issue.details.resourceType})`)
+      );
+    } else if (issue.type === 'low-resolution-image') {
+      const details = issue.details;
+      console.log(chalk.red(`      Image: ${issue.element.src}`));
+      console.log(
+        chalk.gray(
+          `      Native: ${details.naturalWidth}×${details.naturalHeight}px, displayed: ${details.renderedWidth}×${details.renderedHeight} device px (${details.upscale}× upscale, max ${details.maxUpscale}×)`
+        )
+      );
+    } else if (issue.type === 'occluded-content') {
+      const { overlay, layer, intersection } = issue.details;
+      console.log(chalk.gray(`      Under: ${overlay.selector} (${layer})`));
+      console.log(chalk.gray(`      Intersection: ${intersection.width}px × ${intersection.height}px`));
+
+      if (issue.element.text) {
+        console.log(chalk.red(`      Content: "${this.truncate(issue.element.text)}"`));
+      }
+    } else if (issue.type === 'tiny-text') {
+      const { fontSize, cssFontSize, scale, minFontSize } = issue.details;
+      const zoomed = scale !== 1 ? ` (${cssFontSize}px × ${scale})` : '';
+      console.log(chalk.gray(`      Font size: ${fontSize}px${zoomed}, minimum ${minFontSize}px`));
+
+      if (issue.element.text) {
+        console.log(chalk.red(`      Content: "${this.truncate(issue.element.text)}"`));
+      }
+    } else if (issue.type === 'low-contrast') {
+      const { foreground, background, backgroundSampled, ratio, minContrast } = issue.details;
+      const sampled = backgroundSampled ? ' (sampled from the rendered slide)' : '';
+      console.log(chalk.gray(`      Contrast: ${ratio}:1, minimum ${minContrast}:1`));
+      console.log(chalk.gray(`      Colors: ${foreground} on ${background}${sampled}`));
+
+      if (issue.element.text) {
+        console.log(chalk.red(`      Content: "${this.truncate(issue.element.text)}"`));
+      }
+    } else if (issue.type === 'font-fallback') {
+      const { family, role, status, elementCount } = issue.details;
+      const reason =
+        status === 'failed'
+          ? 'web font failed to load'
+          : status === 'loading'
+            ? 'web font still loading after the wait'
+            : 'not a web font and not installed';
+      console.log(chalk.gray(`      Font: "${family}" (fonts.${role}), ${reason}`));
+      console.log(chalk.gray(`      Elements: ${elementCount} set in a fallback font; measurements on this slide may be unreliable`));
+    } else if (issue.type === 'blank-slide') {
+      if (issue.details.reason === 'empty') {
+        console.log(chalk.red('      Reason: no visible text or media'));
+      } else {
+        console.log(chalk.red(`      Missing: ${this.formatContentCounts(issue.details.missing ?? {})}`));
+        console.log(chalk.gray(`      Rendered: ${this.formatContentCounts(issue.details.rendered)}`));
+      }
     }
 
     // Source info (when project path is specified)
     if (issue.source) {
       console.log();
+      const codeStep = issue.source.codeStep;
+      const step = codeStep
+        ? ` (code step ${codeStep.step}/${codeStep.total}${
+            codeStep.highlight ? `, lines ${codeStep.highlight}` : ''
+          })`
+        : '';
       console.log(
         chalk.cyan(
           `      Source: ${issue.source.file}:${issue.source.line}${
             issue.source.lineEnd !== issue.source.line
               ? `-${issue.source.lineEnd}`
               : ''
-          }`
+          }${step}`
         )
       );
       const lines = issue.source.content.split('\n');
@@ -158,8 +424,16 @@ export class ConsoleReporter {
     console.log(chalk.bold('Summary:'));
     console.log(`  Total slides: ${result.totalSlides}`);
 
+    if (result.staticOnly) {
+      console.log(chalk.gray('  Static-only check: issues are predicted from Markdown, not rendered'));
+    }
+
     if (result.slidesWithIssues.length === 0) {
       console.log(chalk.green('  No issues found! 🎉'));
+      this.reportWarningSummary(result);
+      this.reportRuntimeErrorSummary(result);
+      this.reportRenderWaitSummary(result);
+      this.reportPredictionAccuracy(result);
       return;
     }
 
@@ -170,38 +444,37 @@ export class ConsoleReporter {
       )
     );
 
-    if (result.summary.textOverflow.count > 0) {
-      const slides = result.summary.textOverflow.slides.join(', ');
-      console.log(
-        chalk.yellow(
-          `  - Text overflow: ${result.summary.textOverflow.count} slides (Slide ${slides})`
-        )
-      );
-    }
-
-    if (result.summary.elementOverflow.count > 0) {
-      const slides = result.summary.elementOverflow.slides.join(', ');
-      console.log(
-        chalk.yellow(
-          `  - Element overflow: ${result.summary.elementOverflow.count} slides (Slide ${slides})`
-        )
-      );
-    }
+    const summaryLines: Array<[keyof CheckResult['summary'], string]> = [
+      ['textOverflow', 'Text overflow'],
+      ['elementOverflow', 'Element overflow'],
+      ['scrollbar', 'Scrollbar detected'],
+      ['elementOverlap', 'Element overlap'],
+      ['clippedContent', 'Clipped content'],
+      ['truncatedText', 'Truncated text'],
+      ['safeArea', 'Outside safe area'],
+      ['brokenAsset', 'Broken asset'],
+      ['blankSlide', 'Blank slide'],
+      ['lowResolutionImage', 'Low-resolution image'],
+      ['occludedContent', 'Occluded content'],
+      ['tinyText', 'Tiny text'],
+      ['lowContrast', 'Low contrast'],
+    ];
+    summaryLines.forEach(([key, label]) => {
+      const { count, slides } = result.summary[key];
+      if (count > 0) {
+        console.log(chalk.yellow(`  - ${label}: ${count} slides (Slide ${slides.join(', ')})`));
+      }
+    });
 
-    if (result.summary.scrollbar.count > 0) {
-      const slides = result.summary.scrollbar.slides.join(', ');
-      console.log(
-        chalk.yellow(
-          `  - Scrollbar detected: ${result.summary.scrollbar.count} slides (Slide ${slides})`
-        )
-      );
-    }
+    this.reportWarningSummary(result);
+    this.reportRuntimeErrorSummary(result);
+    this.reportRenderWaitSummary(result);
 
     // In verbose mode, show issue list per slide
     if (this.verbose && result.slides.length > 0) {
       console.log();
       console.log(chalk.bold('Detailed issues by slide:'));
-      result.slides.forEach(slide => {
+      result.slides.filter(slide => slide.issueCount > 0).forEach(slide => {
         console.log(
           `  Slide ${slide.page}: ${slide.issueCount} issue${
             slide.issueCount > 1 ? 's' : ''
@@ -209,31 +482,163 @@ export class ConsoleReporter {
         );
         slide.issues.forEach(issue => {
           const type = this.getShortIssueType(issue.type);
+          const click = issue.click ? `, click ${issue.click}` : '';
           if (issue.source) {
             console.log(
               chalk.gray(
-                `    - ${issue.source.file}:${issue.source.line} (${issue.element.tag}: ${type})`
+                `    - ${issue.source.file}:${issue.source.line} (${issue.element.tag}: ${type}${click})`
               )
             );
           }
         });
       });
     }
+
+    this.reportPredictionAccuracy(result);
+  }
+
+  /**
+   * Report slides with warnings (not counted as issues)
+   */
+  private reportWarningSummary(result: CheckResult): void {
+    const { count, slides } = result.summary.fontFallback;
+    if (count > 0) {
+      console.log(
+        chalk.yellow(`  Font fallback (warning): ${count} slides (Slide ${slides.join(', ')})`)
+      );
+    }
+  }
+
+  /**
+   * Report errors of the initial load and slides where console errors or page exceptions occurred
+   */
+  private reportRuntimeErrorSummary(result: CheckResult): void {
+    const loadErrors = result.loadErrors?.length ?? 0;
+    if (loadErrors > 0) {
+      console.log(chalk.red(`  Runtime errors while loading: ${loadErrors}`));
+    }
+
+    const { count, slides } = result.summary.runtimeErrors;
+    if (count > 0) {
+      console.log(chalk.red(`  Runtime errors: ${count} slides (Slide ${slides.join(', ')})`));
+    }
+  }
+
+  /**
+   * Report slides that had not settled when the settle timeout was reached
+   */
+  private reportRenderWaitSummary(result: CheckResult): void {
+    const unsettled = (result.renderWaits ?? []).filter(wait => !wait.settled).map(wait => wait.page);
+    if (unsettled.length > 0) {
+      console.log(
+        chalk.yellow(`  Not settled before measuring: ${unsettled.length} slides (Slide ${unsettled.join(', ')})`)
+      );
+    }
+  }
+
+  /**
+   * Report how well the static pre-check predicted the detected issues
+   */
+  private reportPredictionAccuracy(result: CheckResult): void {
+    if (!result.contentAnalysis || result.staticOnly) {
+      return;
+    }
+
+    const { accuracy, totalActual } = result.contentAnalysis.predictions;
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+    console.log();
+    console.log(chalk.bold('Prediction accuracy:'));
+    console.log(
+      `  Precision: ${percent(accuracy.precision)} (${accuracy.confirmed}/${accuracy.predicted} predictions confirmed)`
+    );
+    console.log(
+      `  Recall: ${percent(accuracy.recall)} (${totalActual - accuracy.falseNegatives}/${totalActual} issues predicted)`
+    );
+  }
+
+  /**
+   * Describe why an asset is broken
+   */
+  private formatAssetFailure(details: BrokenAssetIssue['details']): string {
+    switch (details.reason) {
+      case 'http-error':
+        return `HTTP ${details.status}`;
+      case 'request-failed':
+        return `request failed (${details.error})`;
+      case 'decode-failed':
+        return 'could not be decoded';
+    }
+  }
+
+  /**
+   * Describe block counts (e.g. "1 heading, 2 code blocks")
+   */
+  private formatContentCounts(counts: Partial<SlideContentCounts>): string {
+    const labels: Record<keyof SlideContentCounts, string> = {
+      headings: 'heading',
+      lists: 'list',
+      codeBlocks: 'code block',
+      images: 'image',
+      tables: 'table',
+    };
+    const parts = (Object.keys(labels) as Array<keyof SlideContentCounts>)
+      .filter(key => counts[key])
+      .map(key => `${counts[key]} ${labels[key]}${counts[key] === 1 ? '' : 's'}`);
+    return parts.length > 0 ? parts.join(', ') : 'nothing';
+  }
+
+  /**
+   * Shorten text for display
+   */
+  private truncate(text: string, length = 80): string {
+    return text.length > length ? text.substring(0, length) + '...' : text;
+  }
+
+  /**
+   * Format a slide and click steps (e.g. "slide 7, click 4")
+   */
+  private formatLocation(slideNumber: number, clicks: number[]): string {
+    const sorted = [...clicks].sort((a, b) => a - b);
+    return `slide ${slideNumber}, ${sorted.length === 1 ? 'click' : 'clicks'} ${sorted.join(', ')}`;
   }
 
   /**
    * Get issue type message
    */
-  private getIssueTypeMessage(type: string): string {
+  private getIssueTypeMessage(type: string, predicted = false): string {
+    const verb = predicted ? 'predicted' : 'detected';
     switch (type) {
       case 'text-overflow':
-        return 'Text overflow detected';
+        return `Text overflow ${verb}`;
       case 'element-overflow':
-        return 'Element overflow detected';
+        return `Element overflow ${verb}`;
       case 'scrollbar':
-        return 'Scrollbar detected';
+        return `Scrollbar ${verb}`;
+      case 'element-overlap':
+        return `Element overlap ${verb}`;
+      case 'clipped-content':
+        return `Clipped content ${verb}`;
+      case 'truncated-text':
+        return `Truncated text ${verb}`;
+      case 'safe-area':
+        return `Content outside safe area ${verb}`;
+      case 'broken-asset':
+        return `Broken asset ${verb}`;
+      case 'blank-slide':
+        return `Blank slide ${verb}`;
+      case 'low-resolution-image':
+        return `Low-resolution image ${verb}`;
+      case 'occluded-content':
+        return `Occluded content ${verb}`;
+      case 'tiny-text':
+        return `Tiny text ${verb}`;
+      case 'low-contrast':
+        return `Low contrast ${verb}`;
+      case 'font-fallback':
+        return `Font fallback ${verb}`;
       default:
-        return 'Unknown issue detected';
+        return `Unknown issue ${verb}`;
     }
   }
 
@@ -248,6 +653,28 @@ export class ConsoleReporter {
         return 'element overflow';
       case 'scrollbar':
         return 'scrollbar';
+      case 'element-overlap':
+        return 'element overlap';
+      case 'clipped-content':
+        return 'clipped content';
+      case 'truncated-text':
+        return 'truncated text';
+      case 'safe-area':
+        return 'safe area';
+      case 'broken-asset':
+        return 'broken asset';
+      case 'blank-slide':
+        return 'blank slide';
+      case 'low-resolution-image':
+        return 'low-resolution image';
+      case 'occluded-content':
+        return 'occluded content';
+      case 'tiny-text':
+        return 'tiny text';
+      case 'low-contrast':
+        return 'low contrast';
+      case 'font-fallback':
+        return 'font fallback';
       default:
         return 'unknown';
     }
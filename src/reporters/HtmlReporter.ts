@@ -1,6 +1,6 @@
 import { writeFile, mkdir, readFile } from 'fs/promises';
 import { dirname, join } from 'path';
-import { CheckResult } from '../types';
+import { CheckResult, Issue, RuntimeError } from '../types';
 import { fileURLToPath } from 'url';
 import { dirname as pathDirname } from 'path';
 
@@ -46,71 +46,409 @@ export class HtmlReporter {
     const slides = result.slides.map(slide => ({
       ...slide,
       multiple: slide.issueCount > 1,
-      issues: slide.issues.map(issue => ({
-        ...issue,
-        typeMessage: this.getTypeMessage(issue.type),
-      })),
+      // Warnings are listed with the issues, but not counted in issueCount
+      issues: [
+        ...slide.issues.map(issue => this.getIssueData(issue, slide.page)),
+        ...(slide.warnings ?? []).map(warning => ({
+          ...this.getIssueData(warning, slide.page),
+          typeMessage: `${this.getTypeMessage(warning.type)} (warning)`,
+        })),
+      ],
+      hasRuntimeErrors: (slide.runtimeErrors?.length ?? 0) > 0,
+      runtimeErrors: this.getRuntimeErrorData(slide.runtimeErrors ?? []),
     }));
 
+    // Accuracy is only measured when the browser pass ran
+    const accuracy = result.staticOnly ? undefined : result.contentAnalysis?.predictions.accuracy;
+    const totalActual = result.contentAnalysis?.predictions.totalActual ?? 0;
+
     return {
+      hasPredictions: !!accuracy,
+      predictionPrecision: accuracy ? Math.round(accuracy.precision * 100) : 0,
+      predictionRecall: accuracy ? Math.round(accuracy.recall * 100) : 0,
+      predictionsConfirmed: accuracy?.confirmed ?? 0,
+      predictionsTotal: accuracy?.predicted ?? 0,
+      predictedActual: accuracy ? totalActual - accuracy.falseNegatives : 0,
+      totalActual,
+      falsePositives: accuracy?.falsePositives ?? 0,
+      falseNegatives: accuracy?.falseNegatives ?? 0,
       timestamp: new Date(result.timestamp).toLocaleString(),
       totalSlides: result.totalSlides,
       slidesWithIssuesCount: result.slidesWithIssues.length,
       issuesFound: result.issuesFound,
       issuesClass,
       hasIssues: result.issuesFound > 0,
+      // Slides with runtime errors are listed even without issues
+      hasSlides: slides.length > 0,
+      runtimeErrorSlidesCount: result.summary.runtimeErrors.count,
+      runtimeErrorsClass: result.summary.runtimeErrors.count > 0 ? 'error' : 'success',
+      hasLoadErrors: (result.loadErrors?.length ?? 0) > 0,
+      loadErrors: this.getRuntimeErrorData(result.loadErrors ?? []),
       slides,
     };
   }
 
+  /**
+   * Issue with the flat fields the template shows
+   */
+  private getIssueData(issue: Issue, page: number): Record<string, unknown> {
+    return {
+      ...issue,
+      typeMessage: this.getTypeMessage(issue.type, issue.predicted),
+      location: issue.click ? `slide ${page}, click ${issue.click}` : undefined,
+      codeStep: issue.source?.codeStep
+        ? `${issue.source.codeStep.step}/${issue.source.codeStep.total}`
+        : undefined,
+      ...this.getOverlapData(issue),
+      ...this.getClippedData(issue),
+      ...this.getTruncatedData(issue),
+      ...this.getSafeAreaData(issue),
+      ...this.getBrokenAssetData(issue),
+      ...this.getBlankSlideData(issue),
+      ...this.getLowResolutionData(issue),
+      ...this.getOccludedData(issue),
+      ...this.getTinyTextData(issue),
+      ...this.getContrastData(issue),
+      ...this.getFontFallbackData(issue),
+    };
+  }
+
+  /**
+   * Runtime errors with a label for their type
+   */
+  private getRuntimeErrorData(errors: RuntimeError[]): Array<RuntimeError & { label: string }> {
+    return errors.map(error => ({
+      ...error,
+      label: error.type === 'exception' ? 'Uncaught exception' : 'Console error',
+    }));
+  }
+
+  /**
+   * Flat fields describing an element overlap
+   */
+  private getOverlapData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'element-overlap') {
+      return {};
+    }
+
+    const { overlappedElement, overlappedSource, intersection } = issue.details;
+    const source = overlappedSource ? ` (${overlappedSource.file}:${overlappedSource.line})` : '';
+    return {
+      overlaps: `${overlappedElement.selector}${source}`,
+      intersection: `${intersection.width}px × ${intersection.height}px (${Math.round(intersection.ratio * 100)}% of the smaller element)`,
+    };
+  }
+
+  /**
+   * Flat fields describing clipped content
+   */
+  private getClippedData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'clipped-content') {
+      return {};
+    }
+
+    const edges = Object.entries(issue.details.hidden)
+      .filter(([, amount]) => amount > 0)
+      .map(([edge, amount]) => `${edge} ${amount}px`);
+    return {
+      clippedBy: issue.details.container.selector,
+      hiddenEdges: edges.join(', '),
+    };
+  }
+
+  /**
+   * Flat fields describing truncated text
+   */
+  private getTruncatedData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'truncated-text') {
+      return {};
+    }
+
+    const details = issue.details;
+    return {
+      truncation:
+        details.truncation === 'line-clamp'
+          ? `line-clamp, ${details.hiddenLines} of ${details.totalLines} lines hidden`
+          : `ellipsis, ${details.hiddenCharacters} characters hidden`,
+      visibleText: `${details.visibleText}…`,
+      fullText: details.fullText,
+    };
+  }
+
+  /**
+   * Flat fields describing content inside the safe-area margin
+   */
+  private getSafeAreaData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'safe-area') {
+      return {};
+    }
+
+    const edges = Object.entries(issue.details.intrusion)
+      .filter(([, amount]) => amount > 0)
+      .map(([edge, amount]) => `${edge} ${amount}px`);
+    return { safeAreaEdges: edges.join(', ') };
+  }
+
+  /**
+   * Flat fields describing a broken asset
+   */
+  private getBrokenAssetData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'broken-asset') {
+      return {};
+    }
+
+    const { url, reason, status, error } = issue.details;
+    const reasons = {
+      'http-error': `HTTP ${status}`,
+      'request-failed': `Request failed (${error})`,
+      'decode-failed': 'Could not be decoded',
+    };
+    return { assetUrl: url, assetReason: reasons[reason] };
+  }
+
+  /**
+   * Flat fields describing a blank slide
+   */
+  private getBlankSlideData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'blank-slide') {
+      return {};
+    }
+
+    if (issue.details.reason === 'empty') {
+      return { blankReason: 'No visible text or media' };
+    }
+
+    const labels: Record<string, string> = {
+      headings: 'heading',
+      lists: 'list',
+      codeBlocks: 'code block',
+      images: 'image',
+      tables: 'table',
+    };
+    const missing = Object.entries(issue.details.missing ?? {})
+      .map(([key, count]) => `${count} ${labels[key]}${count === 1 ? '' : 's'}`)
+      .join(', ');
+    return { blankReason: `Not rendered: ${missing}` };
+  }
+
+  /**
+   * Flat fields describing a low-resolution image
+   */
+  private getLowResolutionData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'low-resolution-image') {
+      return {};
+    }
+
+    const details = issue.details;
+    return {
+      imageUrl: issue.element.src ?? '',
+      imageResolution: `${details.naturalWidth}×${details.naturalHeight}px shown at ${details.renderedWidth}×${details.renderedHeight} device px (${details.upscale}× upscale, max ${details.maxUpscale}×)`,
+    };
+  }
+
+  /**
+   * Flat fields describing occluded content
+   */
+  private getOccludedData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'occluded-content') {
+      return {};
+    }
+
+    const { overlay, layer, intersection } = issue.details;
+    return {
+      occludedBy: `${overlay.selector} (${layer})`,
+      occludedArea: `${intersection.width}px × ${intersection.height}px`,
+    };
+  }
+
+  /**
+   * Flat fields describing tiny text
+   */
+  private getTinyTextData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'tiny-text') {
+      return {};
+    }
+
+    const { fontSize, cssFontSize, scale, minFontSize } = issue.details;
+    const zoomed = scale !== 1 ? ` (${cssFontSize}px × ${scale})` : '';
+    return { effectiveFontSize: `${fontSize}px${zoomed}, minimum ${minFontSize}px` };
+  }
+
+  /**
+   * Flat fields describing low contrast
+   */
+  private getContrastData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'low-contrast') {
+      return {};
+    }
+
+    const { foreground, background, backgroundSampled, ratio, minContrast } = issue.details;
+    const sampled = backgroundSampled ? ' (sampled from the rendered slide)' : '';
+    return {
+      contrastRatio: `${ratio}:1, minimum ${minContrast}:1`,
+      contrastColors: `${foreground} on ${background}${sampled}`,
+    };
+  }
+
+  /**
+   * Flat fields describing a font fallback
+   */
+  private getFontFallbackData(issue: Issue): Record<string, string> {
+    if (issue.type !== 'font-fallback') {
+      return {};
+    }
+
+    const { family, role, status, elementCount } = issue.details;
+    const reason =
+      status === 'failed'
+        ? 'web font failed to load'
+        : status === 'loading'
+          ? 'web font still loading after the wait'
+          : 'not a web font and not installed';
+    return {
+      fallbackFont: `"${family}" (fonts.${role}), ${reason}`,
+      fallbackElements: `${elementCount} set in a fallback font; measurements on this slide may be unreliable`,
+    };
+  }
+
   /**
    * Simple template rendering
+   *
+   * Supports {{name}}, {{#if name}}...{{else}}...{{/if}} and {{#each name}}...{{/each}},
+   * with nested blocks and dotted names. Inside {{#each}} names resolve against the
+   * item first, then the enclosing scopes. Values are HTML-escaped.
    */
   private renderTemplate(template: string, data: any): string {
-    let result = template;
+    return this.renderScope(template, [data]);
+  }
 
-    // Simple variable replacement {{variable}}
-    result = result.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return data[key] !== undefined ? String(data[key]) : match;
-    });
+  /**
+   * Render a template fragment against a scope chain (innermost first)
+   */
+  private renderScope(template: string, scopes: unknown[]): string {
+    const open = /\{\{#(if|each) ([\w.]+)\}\}/.exec(template);
+    if (!open) {
+      return this.renderVariables(template, scopes);
+    }
 
-    // Process if statement {{#if condition}}...{{else}}...{{/if}}
-    result = result.replace(
-      /\{\{#if (\w+)\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g,
-      (_match, condition, trueBranch, falseBranch) => {
-        return data[condition] ? trueBranch : falseBranch || '';
+    // Find the matching close tag (and the {{else}} of an if) at the same depth
+    const tags = /\{\{(?:(#if|#each) [\w.]+|(\/if|\/each|else))\}\}/g;
+    tags.lastIndex = open.index + open[0].length;
+    let depth = 0;
+    let elseTag: RegExpExecArray | undefined;
+    let close: RegExpExecArray | null;
+    while ((close = tags.exec(template))) {
+      if (close[1]) {
+        depth++;
+      } else if (close[2] === 'else') {
+        if (depth === 0 && open[1] === 'if') elseTag = close;
+      } else if (depth > 0) {
+        depth--;
+      } else {
+        break;
       }
+    }
+    if (!close) {
+      throw new Error(`Unclosed {{#${open[1]} ${open[2]}}} in report template`);
+    }
+
+    const bodyStart = open.index + open[0].length;
+    const body = template.slice(bodyStart, elseTag ? elseTag.index : close.index);
+    const value = this.lookup(open[2], scopes);
+
+    let rendered: string;
+    if (open[1] === 'if') {
+      const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+      const otherwise = elseTag
+        ? template.slice(elseTag.index + elseTag[0].length, close.index)
+        : '';
+      rendered = this.renderScope(truthy ? body : otherwise, scopes);
+    } else {
+      rendered = Array.isArray(value)
+        ? value.map(item => this.renderScope(body, [item, ...scopes])).join('')
+        : '';
+    }
+
+    return (
+      this.renderVariables(template.slice(0, open.index), scopes) +
+      rendered +
+      this.renderScope(template.slice(close.index + close[0].length), scopes)
     );
+  }
 
-    // Process each statement {{#each array}}...{{/each}}
-    result = result.replace(
-      /\{\{#each (\w+)\}\}([\s\S]*?)\{\{\/each\}\}/g,
-      (_match, arrayName, itemTemplate) => {
-        const array = data[arrayName];
-        if (!Array.isArray(array)) return '';
-
-        return array
-          .map(item => {
-            return this.renderTemplate(itemTemplate, item);
-          })
-          .join('');
-      }
+  /**
+   * Replace {{name}} with the escaped value (missing values render empty)
+   */
+  private renderVariables(template: string, scopes: unknown[]): string {
+    return template.replace(/\{\{([\w.]+)\}\}/g, (_match, path) => {
+      const value = this.lookup(path, scopes);
+      return value === undefined || value === null ? '' : this.escapeHtml(String(value));
+    });
+  }
+
+  /**
+   * Resolve a dotted name in the innermost scope that defines its first segment
+   */
+  private lookup(path: string, scopes: unknown[]): unknown {
+    const [head, ...rest] = path.split('.');
+    const scope = scopes.find(
+      (s): s is Record<string, unknown> => s !== null && typeof s === 'object' && head in s
+    );
+    if (!scope) {
+      return undefined;
+    }
+    return rest.reduce<unknown>(
+      (value, key) => (value == null ? undefined : (value as Record<string, unknown>)[key]),
+      scope[head]
     );
+  }
 
-    return result;
+  /**
+   * Escape a value for HTML text and attribute content
+   */
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
   }
 
   /**
    * Get issue type message
    */
-  private getTypeMessage(type: string): string {
+  private getTypeMessage(type: string, predicted = false): string {
+    const verb = predicted ? 'Predicted' : 'Detected';
     switch (type) {
       case 'text-overflow':
-        return 'Text Overflow Detected';
+        return `Text Overflow ${verb}`;
       case 'element-overflow':
-        return 'Element Overflow Detected';
+        return `Element Overflow ${verb}`;
       case 'scrollbar':
-        return 'Scrollbar Detected';
+        return `Scrollbar ${verb}`;
+      case 'element-overlap':
+        return `Element Overlap ${verb}`;
+      case 'clipped-content':
+        return `Clipped Content ${verb}`;
+      case 'truncated-text':
+        return `Truncated Text ${verb}`;
+      case 'safe-area':
+        return `Content Outside Safe Area ${verb}`;
+      case 'broken-asset':
+        return `Broken Asset ${verb}`;
+      case 'blank-slide':
+        return `Blank Slide ${verb}`;
+      case 'low-resolution-image':
+        return `Low-Resolution Image ${verb}`;
+      case 'occluded-content':
+        return `Occluded Content ${verb}`;
+      case 'tiny-text':
+        return `Tiny Text ${verb}`;
+      case 'low-contrast':
+        return `Low Contrast ${verb}`;
+      case 'font-fallback':
+        return `Font Fallback ${verb}`;
       default:
         return 'Unknown Issue';
     }
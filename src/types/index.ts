@@ -8,6 +8,21 @@ export interface SourceInfo {
   line: number; // Start line number
   lineEnd: number; // End line number
   content: string; // Corresponding Markdown content
+  codeStep?: CodeStepInfo; // Step of a stepped code block (highlight sequence or magic-move)
+}
+
+// Step of a stepped code block an issue was found at
+export interface CodeStepInfo {
+  step: number; // Step number (1-based)
+  total: number; // Number of steps in the code block
+  highlight?: string; // Highlighted line ranges of a highlight step (e.g. "3-5")
+}
+
+// Rendered state of the code block an element belongs to
+export interface CodeBlockState {
+  index: number; // Index of the code block on the slide (0-based, document order)
+  highlightedLines: number[]; // Highlighted lines (1-based); empty if no line is dimmed
+  text: string; // Code currently shown
 }
 
 // Element information
@@ -16,18 +31,42 @@ export interface ElementInfo {
   class?: string; // CSS class name
   id?: string; // Element ID
   selector: string; // Unique CSS selector
-  text?: string; // Text content (first 50 characters)
+  text?: string; // Text content (first 100 characters)
   src?: string; // Image source (for img elements)
   xpath?: string; // XPath selector (optional)
+  codeBlock?: CodeBlockState; // Included for elements inside a code block
 }
 
 // Base Issue type
 export interface BaseIssue {
-  type: 'text-overflow' | 'element-overflow' | 'scrollbar';
+  type:
+    | 'text-overflow'
+    | 'element-overflow'
+    | 'scrollbar'
+    | 'element-overlap'
+    | 'clipped-content'
+    | 'truncated-text'
+    | 'safe-area'
+    | 'broken-asset'
+    | 'blank-slide'
+    | 'low-resolution-image'
+    | 'occluded-content'
+    | 'tiny-text'
+    | 'low-contrast'
+    | 'font-fallback';
   element: ElementInfo;
   source?: SourceInfo; // Included when project path is specified
+  click?: number; // Click step (v-click) the issue first appeared at; omitted for the initial render
+  predicted?: boolean; // Predicted by static analysis (--static-only), not measured in a browser
+  prediction?: PredictionDetails; // Included for predicted issues
 }
 
+// Static prediction details of a predicted issue
+export type PredictionDetails = Pick<
+  PredictedIssue,
+  'riskLevel' | 'confidence' | 'recommendation' | 'measuredValue' | 'thresholdValue'
+>;
+
 // Text overflow
 export interface TextOverflowIssue extends BaseIssue {
   type: 'text-overflow';
@@ -69,6 +108,178 @@ export interface ScrollbarIssue extends BaseIssue {
   };
 }
 
+// Two elements overlapping each other (`element` is the one drawn on top)
+export interface ElementOverlapIssue extends BaseIssue {
+  type: 'element-overlap';
+  details: {
+    overlappedElement: ElementInfo; // Element covered by the one on top
+    overlappedSource?: SourceInfo; // Included when project path is specified
+    elementBounds: Bounds;
+    overlappedBounds: Bounds;
+    intersection: {
+      width: number; // px
+      height: number; // px
+      area: number; // px²
+      ratio: number; // Share of the smaller element's area (0-1)
+    };
+  };
+}
+
+// Content cut off by an ancestor with overflow hidden (`element` is the clipped element)
+export interface ClippedContentIssue extends BaseIssue {
+  type: 'clipped-content';
+  details: {
+    container: ElementInfo; // Ancestor that clips the element
+    containerBounds: Bounds; // Clipping box (inside the container's borders)
+    elementBounds: Bounds;
+    hidden: {
+      left: number; // px hidden past each edge of the clipping box
+      top: number;
+      right: number;
+      bottom: number;
+    };
+  };
+}
+
+// Text cut short by text-overflow: ellipsis or -webkit-line-clamp
+export interface TruncatedTextIssue extends BaseIssue {
+  type: 'truncated-text';
+  details: {
+    truncation: 'ellipsis' | 'line-clamp';
+    fullText: string;
+    visibleText: string; // Text the audience sees, without the ellipsis
+    hiddenCharacters: number;
+    totalLines: number; // Lines the full text takes
+    visibleLines: number;
+    hiddenLines: number;
+  };
+}
+
+// Content inside the slide but within the safe-area inset of its edges
+export interface SafeAreaIssue extends BaseIssue {
+  type: 'safe-area';
+  details: {
+    safeBounds: Bounds; // Slide bounds less the safe-area inset
+    elementBounds: Bounds; // Box of the element's content
+    intrusion: {
+      left: number; // px past each edge of the safe area
+      top: number;
+      right: number;
+      bottom: number;
+    };
+  };
+}
+
+// Image, media or other asset that failed to load or decode
+export interface BrokenAssetIssue extends BaseIssue {
+  type: 'broken-asset';
+  details: {
+    url: string;
+    reason: 'http-error' | 'request-failed' | 'decode-failed';
+    resourceType: string; // image, background, media, font, stylesheet
+    status?: number; // HTTP status (http-error)
+    error?: string; // Network error (request-failed)
+  };
+}
+
+// Slide that rendered nothing, or less than its Markdown source contains
+export interface BlankSlideIssue extends BaseIssue {
+  type: 'blank-slide';
+  details: {
+    reason: 'empty' | 'missing-content'; // No visible text or media / fewer blocks than the source
+    rendered: SlideContentCounts;
+    expected?: ExpectedSlideContent; // Included when project path is specified
+    missing?: Partial<SlideContentCounts>; // Blocks of the source not rendered (missing-content)
+  };
+}
+
+// Raster image displayed larger than its native size (blurry when projected)
+export interface LowResolutionImageIssue extends BaseIssue {
+  type: 'low-resolution-image';
+  details: {
+    naturalWidth: number;
+    naturalHeight: number;
+    renderedWidth: number; // Element size in device pixels (CSS px × devicePixelRatio)
+    renderedHeight: number;
+    upscale: number; // Size the picture is drawn at / native size (object-fit applied)
+    maxUpscale: number;
+  };
+}
+
+// Slide text under a global layer or an overlay drawn over every slide
+export interface OccludedContentIssue extends BaseIssue {
+  type: 'occluded-content';
+  details: {
+    overlay: ElementInfo; // Layer element the text intersects
+    layer: 'global-top' | 'global-bottom' | 'overlay'; // global-top.vue, global-bottom.vue, or a configured overlay selector
+    elementBounds: Bounds;
+    overlayBounds: Bounds;
+    intersection: { width: number; height: number };
+  };
+}
+
+// Text rendered smaller than the minimum font size of the slide canvas
+export interface TinyTextIssue extends BaseIssue {
+  type: 'tiny-text';
+  details: {
+    fontSize: number; // Effective size in slide canvas px (zoom frontmatter and transforms applied)
+    cssFontSize: number; // Computed font-size of the element
+    scale: number; // Scale from the element to the slide canvas (1 unless zoomed or transformed)
+    minFontSize: number;
+  };
+}
+
+// Text whose contrast with the background it is drawn on is below the minimum
+export interface LowContrastIssue extends BaseIssue {
+  type: 'low-contrast';
+  details: {
+    foreground: string; // Effective text colour (#rrggbb, transparency and opacity applied)
+    background: string; // Effective background colour (#rrggbb)
+    backgroundSampled: boolean; // Background averaged from a screenshot (image or gradient behind the text)
+    ratio: number; // WCAG contrast ratio
+    minContrast: number;
+  };
+}
+
+// Slide text set in a declared font that did not load (measured in a fallback font)
+export interface FontFallbackIssue extends BaseIssue {
+  type: 'font-fallback';
+  details: {
+    family: string;
+    role: DeclaredFont['role'];
+    status: 'failed' | 'loading' | 'missing'; // Web font failed / still loading when measured / neither a web font nor installed
+    elementCount: number; // Visible text elements on the slide set in the family
+  };
+}
+
+// Font family declared in the `fonts` headmatter of the presentation
+export interface DeclaredFont {
+  family: string;
+  role: 'sans' | 'serif' | 'mono';
+}
+
+// Block elements visible on a rendered slide
+export interface SlideContentCounts {
+  headings: number;
+  lists: number;
+  codeBlocks: number;
+  images: number;
+  tables: number;
+}
+
+// Block elements the Markdown source of a slide renders
+export interface ExpectedSlideContent extends SlideContentCounts {
+  blocks: number; // All content blocks, including paragraphs and HTML (0 for an intentionally empty slide)
+}
+
+// Failed network request recorded while checking
+export interface AssetFailure {
+  url: string;
+  resourceType: string; // Playwright resource type (image, media, font, ...)
+  status?: number;
+  error?: string;
+}
+
 export interface Bounds {
   left: number;
   top: number;
@@ -76,16 +287,46 @@ export interface Bounds {
   bottom: number;
 }
 
-export type Issue = TextOverflowIssue | ElementOverflowIssue | ScrollbarIssue;
+export type Issue =
+  | TextOverflowIssue
+  | ElementOverflowIssue
+  | ScrollbarIssue
+  | ElementOverlapIssue
+  | ClippedContentIssue
+  | TruncatedTextIssue
+  | SafeAreaIssue
+  | BrokenAssetIssue
+  | BlankSlideIssue
+  | LowResolutionImageIssue
+  | OccludedContentIssue
+  | TinyTextIssue
+  | LowContrastIssue
+  | FontFallbackIssue;
 
 // Slide result
 export interface SlideResult {
   page: number; // Slide number
   issueCount: number; // Number of issues
   issues: Issue[]; // List of detected issues
+  warnings?: Issue[]; // Font fallback: measurements may be unreliable, but not counted as issues
+  runtimeErrors?: RuntimeError[]; // Console errors and exceptions while the slide was active
   screenshot?: string; // Screenshot path
 }
 
+// Time a slide took to settle before it was measured
+export interface RenderWait {
+  page: number; // Slide number
+  time: number; // Milliseconds spent waiting, click steps included
+  settled: boolean; // false if the settle timeout was reached (measurements may be of a half-rendered slide)
+}
+
+// Console error or uncaught exception in the browser
+export interface RuntimeError {
+  type: 'console' | 'exception';
+  message: string;
+  location?: string; // Script URL with line and column, or the first stack frame
+}
+
 // Check result
 export interface CheckResult {
   timestamp: string; // ISO 8601 format
@@ -105,8 +346,60 @@ export interface CheckResult {
       count: number;
       slides: number[];
     };
+    elementOverlap: {
+      count: number;
+      slides: number[];
+    };
+    clippedContent: {
+      count: number;
+      slides: number[];
+    };
+    truncatedText: {
+      count: number;
+      slides: number[];
+    };
+    safeArea: {
+      count: number;
+      slides: number[];
+    };
+    brokenAsset: {
+      count: number;
+      slides: number[];
+    };
+    blankSlide: {
+      count: number;
+      slides: number[];
+    };
+    lowResolutionImage: {
+      count: number;
+      slides: number[];
+    };
+    occludedContent: {
+      count: number;
+      slides: number[];
+    };
+    tinyText: {
+      count: number;
+      slides: number[];
+    };
+    lowContrast: {
+      count: number;
+      slides: number[];
+    };
+    fontFallback: {
+      count: number; // Slides with a font fallback warning (not counted in issuesFound)
+      slides: number[];
+    };
+    runtimeErrors: {
+      count: number; // Number of slides with runtime errors, like the issue types
+      slides: number[];
+    };
   };
-  slides: SlideResult[]; // Details of slides with issues
+  slides: SlideResult[]; // Details of slides with issues or runtime errors
+  loadErrors?: RuntimeError[]; // Console errors and exceptions while the deck loaded, before any slide was checked
+  renderWaits?: RenderWait[]; // Settle time of every slide checked in a browser
+  contentAnalysis?: ContentAnalysisResult; // Static pre-check (only when --project option is specified)
+  staticOnly?: boolean; // Produced by --static-only mode (all issues are predictions)
 }
 
 // Screenshot options
@@ -121,19 +414,29 @@ export interface ScreenshotOptions {
 export interface CheckerOptions {
   url?: string;
   project?: string;
+  dist?: string; // Static `slidev build` output directory to serve instead of a dev server
   pages?: string;
   format?: string[];
   output?: string;
   threshold?: number;
   wait?: number;
+  settleTimeout?: number; // Longest wait for a slide to settle before measuring (default: 5000)
   viewport?: { width: number; height: number };
   browser?: 'chromium' | 'firefox' | 'webkit';
   headless?: boolean;
   verbose?: boolean;
   exclude?: string[];
+  overlays?: string[]; // Selectors of elements drawn over every slide, e.g. a branded footer
+  safeArea?: SafeAreaInset; // Safe-area inset, parsed with parseSafeAreaInset ("24", "5%")
+  minFontSize?: number; // Report text smaller than this size in slide canvas px (off unless set, e.g. 12)
+  minContrast?: number; // Report text with a WCAG contrast ratio below this (off unless set, e.g. 4.5)
+  maxImageUpscale?: number; // Report images displayed larger than this multiple of their native size (default: 1.5)
   screenshot?: ScreenshotOptions;
   failOnIssues?: boolean; // Exit with code 1 if issues are found (for CI)
+  failOnRuntimeErrors?: boolean; // Exit with code 1 if console errors or exceptions occur (for CI)
+  staticOnly?: boolean; // Only run the Markdown analysis, without launching a browser
   concurrency?: number; // Parallel execution count (default: 1)
+  contentAnalysis?: ContentAnalysisConfig; // Static pre-check settings (used with --project)
 }
 
 // Detection configuration
@@ -141,10 +444,33 @@ export interface DetectionConfig {
   textOverflow: boolean;
   elementOverflow: boolean;
   scrollbar: boolean;
+  elementOverlap: boolean;
+  clippedContent: boolean;
+  truncatedText: boolean;
+  safeArea: boolean;
+  safeAreaInset?: SafeAreaInset;
+  brokenAsset: boolean;
+  blankSlide: boolean;
+  lowResolutionImage: boolean;
+  maxImageUpscale: number; // Upscale ratio above which an image is reported
+  occludedContent: boolean;
+  overlays: string[]; // Selectors of elements drawn over every slide (besides global layers)
+  tinyText: boolean;
+  minFontSize?: number; // Font size in slide canvas px below which text is reported
+  lowContrast: boolean;
+  minContrast?: number; // WCAG contrast ratio below which text is reported
+  fontFallback: boolean;
+  declaredFonts: DeclaredFont[]; // Fonts of the headmatter (empty unless project path is specified)
   exclude: string[];
   threshold: number;
 }
 
+// Safe-area inset applied to every edge of the slide
+export interface SafeAreaInset {
+  value: number;
+  unit: 'px' | '%'; // px of the slide canvas, or % of its width (left/right) and height (top/bottom)
+}
+
 // ============================================
 // Content Analysis Types
 // ============================================
@@ -185,8 +511,11 @@ export interface ContentAnalysisConfig {
   complexityThreshold?: number;
   cacheEnabled?: boolean;
   disableAutoAnalysis?: boolean;
-  skipAnalysisForSlides?: number[];
+  skipAnalysisForSlides?: number[]; // Slide numbers (1-based) excluded from analysis
   thresholds?: ContentAnalysisThresholds;
+  fontDirs?: string[]; // Extra directories with font files for text measurement
+  systemFonts?: boolean; // Also measure with installed system fonts (default: true, false with --static-only)
+  layouts?: Record<string, CustomLayoutDefinition>; // Slot descriptions of custom layouts
 }
 
 // Style calibration (extracted from first slide)
@@ -238,12 +567,13 @@ export interface StyleCalibration {
 export interface TextMeasurement {
   text: string;
   font: string;
-  measuredWidth: number;
+  measuredWidth: number; // Single-line width of code, widest wrapped line of other text
   measuredHeight: number;
   availableWidth: number;
   availableHeight: number;
+  lineCount: number; // Lines after wrapping to availableWidth
   willOverflow: boolean;
-  overflowAmount: number;
+  overflowAmount: number; // px past the available width, or past the height if only that overflows
   confidence: 'high' | 'medium' | 'low';
 }
 
@@ -255,6 +585,21 @@ export interface SlotInfo {
   position: 'full' | 'left' | 'right' | 'top' | 'bottom';
 }
 
+// Slot of a custom layout; sizes are px or a percentage of the content area ("50%")
+export interface LayoutSlotDefinition {
+  name: string;
+  width: number | string;
+  height: number | string;
+  position?: SlotInfo['position'];
+}
+
+// Custom layout description (config file, frontmatter or measured in the browser)
+export interface CustomLayoutDefinition {
+  extends?: string; // Built-in layout to copy slots from when no slots or padding are given
+  padding?: Partial<Record<'left' | 'right' | 'top' | 'bottom', number>>;
+  slots?: LayoutSlotDefinition[];
+}
+
 // Layout-specific content area
 export interface LayoutContentArea {
   layout: string;
@@ -288,6 +633,7 @@ export interface PredictedIssue {
   confidence: 'high' | 'medium' | 'low';
   measuredValue?: number;
   thresholdValue?: number;
+  overflowY?: number; // Predicted vertical overflow in px
 }
 
 // Prediction accuracy
@@ -360,12 +706,13 @@ export interface SlidevConfig {
   canvasWidth?: number;
   aspectRatio?: string;
   fonts?: {
-    sans?: string;
-    serif?: string;
-    mono?: string;
+    sans?: string | string[];
+    serif?: string | string[];
+    mono?: string | string[];
   };
   overflowChecker?: {
     thresholds?: ContentAnalysisThresholds;
+    layouts?: Record<string, CustomLayoutDefinition>;
   };
 }
 
@@ -383,4 +730,5 @@ export interface ContentAnalysisResult {
     predictions: PredictedIssue[];
   };
   slideAnalysis: SlideAnalysis[];
+  warnings?: string[]; // Unknown layouts, parser problems
 }
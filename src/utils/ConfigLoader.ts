@@ -3,6 +3,7 @@ import { existsSync } from 'fs';
 import { resolve } from 'path';
 import { pathToFileURL } from 'url';
 import { CheckerOptions } from '../types';
+import { parseSafeAreaInset } from '../checker/OverflowDetector';
 
 /**
  * Class for loading configuration files
@@ -58,17 +59,27 @@ export class ConfigLoader {
 
     if (config.url) normalized.url = config.url;
     if (config.project) normalized.project = config.project;
+    if (config.dist) normalized.dist = config.dist;
     if (config.pages) normalized.pages = config.pages;
     if (config.format) normalized.format = config.format;
     if (config.output) normalized.output = config.output;
     if (config.threshold !== undefined) normalized.threshold = config.threshold;
     if (config.wait !== undefined) normalized.wait = config.wait;
+    if (config.settleTimeout !== undefined) normalized.settleTimeout = config.settleTimeout;
     if (config.viewport) normalized.viewport = config.viewport;
     if (config.browser) normalized.browser = config.browser;
     if (config.headless !== undefined) normalized.headless = config.headless;
     if (config.verbose !== undefined) normalized.verbose = config.verbose;
     if (config.exclude) normalized.exclude = config.exclude;
+    if (config.overlays) normalized.overlays = config.overlays;
+    if (config.safeArea !== undefined) normalized.safeArea = parseSafeAreaInset(config.safeArea);
+    if (config.minFontSize !== undefined) normalized.minFontSize = config.minFontSize;
+    if (config.minContrast !== undefined) normalized.minContrast = config.minContrast;
+    if (config.maxImageUpscale !== undefined) normalized.maxImageUpscale = config.maxImageUpscale;
     if (config.screenshot) normalized.screenshot = config.screenshot;
+    if (config.contentAnalysis) normalized.contentAnalysis = config.contentAnalysis;
+    if (config.staticOnly !== undefined) normalized.staticOnly = config.staticOnly;
+    if (config.failOnRuntimeErrors !== undefined) normalized.failOnRuntimeErrors = config.failOnRuntimeErrors;
 
     return normalized;
   }
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CalibrationCache } from '../../src/calibration/CalibrationCache';
+import { createDefaultCalibration } from '../../src/calibration/TextPredictor';
+import { mkdtemp, rm, writeFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+describe('CalibrationCache', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'slidev-calibration-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should load a saved calibration by theme and canvas size', async () => {
+    const cache = new CalibrationCache(projectDir);
+    const calibration = {
+      ...createDefaultCalibration(980, 552),
+      themeUsed: 'seriph',
+    };
+    calibration.actualFontSizes.h1 = 56;
+
+    const path = await cache.save(calibration);
+    expect(path).toContain(join('node_modules', '.cache'));
+
+    const loaded = await cache.load('seriph', 980, 552);
+    expect(loaded?.actualFontSizes.h1).toBe(56);
+  });
+
+  it('should return null for another theme or canvas size', async () => {
+    const cache = new CalibrationCache(projectDir);
+    await cache.save({ ...createDefaultCalibration(980, 552), themeUsed: 'seriph' });
+
+    expect(await cache.load('default', 980, 552)).toBe(null);
+    expect(await cache.load('seriph', 1280, 720)).toBe(null);
+  });
+
+  it('should return null for an unreadable cache file', async () => {
+    const cache = new CalibrationCache(projectDir);
+    const path = cache.getPath('default', 980, 552);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, '{ broken', 'utf-8');
+
+    expect(await cache.load('default', 980, 552)).toBe(null);
+  });
+
+  it('should keep theme paths inside the cache directory', () => {
+    const cache = new CalibrationCache(projectDir);
+    const path = cache.getPath('../themes/my-theme', 980, 552);
+
+    expect(dirname(path)).toBe(join(projectDir, 'node_modules', '.cache', 'slidev-overflow-checker'));
+  });
+
+  it('should merge saved layouts with the layouts already cached', async () => {
+    const cache = new CalibrationCache(projectDir);
+    await cache.saveLayouts('seriph', 980, 552, {
+      split: { slots: [{ name: 'default', width: 500, height: 472 }] },
+    });
+    await cache.saveLayouts('seriph', 980, 552, {
+      aside: { slots: [{ name: 'default', width: 300, height: 472 }] },
+    });
+
+    const layouts = await cache.loadLayouts('seriph', 980, 552);
+    expect(Object.keys(layouts ?? {})).toEqual(['split', 'aside']);
+    expect(await cache.loadLayouts('default', 980, 552)).toBe(null);
+    expect(await cache.load('seriph', 980, 552)).toBe(null);
+  });
+});
@@ -44,6 +44,7 @@ describe('ConfigLoader', () => {
   pages: '5-15',
   format: ['html'],
   threshold: 3,
+  safeArea: '5%',
 };`;
 
     await writeFile(jsConfigPath, jsConfig, 'utf-8');
@@ -88,6 +89,7 @@ describe('ConfigLoader', () => {
       expect(config.pages).toBe('5-15');
       expect(config.format).toEqual(['html']);
       expect(config.threshold).toBe(3);
+      expect(config.safeArea).toEqual({ value: 5, unit: '%' });
     });
 
     it('should throw error for non-existent file', async () => {
@@ -0,0 +1,353 @@
+/**
+ * Tests for ContentAnalyzer
+ * Static pre-check combining EnhancedMarkdownParser and TextPredictor
+ */
+import { describe, it, expect } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ContentAnalyzer } from '../../src/analysis/ContentAnalyzer.js';
+import { CalibrationCache } from '../../src/calibration/CalibrationCache.js';
+import { createDefaultCalibration } from '../../src/calibration/TextPredictor.js';
+
+const presentation = `---
+theme: default
+---
+
+# Short title
+
+Some introduction text
+
+---
+
+# This is an extremely long heading that will certainly not fit on a single line of the slide
+
+- Item 1
+- Item 2
+
+---
+
+\`\`\`ts
+${Array.from({ length: 40 }, (_, i) => `const value${i} = ${i};`).join('\n')}
+\`\`\`
+`;
+
+describe('ContentAnalyzer', () => {
+  describe('analyzeMarkdown', () => {
+    it('should analyze every slide', () => {
+      const analyzer = new ContentAnalyzer();
+      const result = analyzer.analyzeMarkdown(presentation);
+
+      expect(result.enabled).toBe(true);
+      expect(result.slideAnalysis).toHaveLength(3);
+      expect(result.presentationMetrics.totalSlides).toBe(3);
+      expect(result.mode.type).toBe('project-directory');
+      expect(result.calibration?.slideDimensions.canvasWidth).toBe(980);
+    });
+
+    it('should mark simple slides as low risk', () => {
+      const analyzer = new ContentAnalyzer();
+      const result = analyzer.analyzeMarkdown(presentation);
+
+      const slide = result.slideAnalysis[0];
+      expect(slide.riskLevel).toBe('low');
+      expect(slide.predictedIssues).toHaveLength(0);
+      expect(slide.complexity).toBeGreaterThanOrEqual(0);
+      expect(slide.complexity).toBeLessThanOrEqual(1);
+    });
+
+    it('should predict heading overflow with source line range', () => {
+      const analyzer = new ContentAnalyzer();
+      const result = analyzer.analyzeMarkdown(presentation);
+
+      const slide = result.slideAnalysis[1];
+      const heading = slide.predictedIssues.find(issue => issue.element === 'H1 heading');
+      expect(heading).toBeDefined();
+      expect(heading!.type).toBe('text-overflow');
+      // Too long for a heading, but it wraps within the slide
+      expect(heading!.riskLevel).toBe('low');
+      expect(heading!.lineRange).toEqual({ start: 11, end: 11 });
+      expect(heading!.confirmed).toBe(false);
+      expect(slide.riskLevel).toBe('medium');
+    });
+
+    it('should predict long code blocks', () => {
+      const analyzer = new ContentAnalyzer();
+      const result = analyzer.analyzeMarkdown(presentation);
+
+      const slide = result.slideAnalysis[2];
+      const code = slide.predictedIssues.find(issue => issue.element === 'Code block');
+      expect(code).toBeDefined();
+      expect(code!.type).toBe('element-overflow');
+      expect(code!.measuredValue).toBe(40);
+      expect(code!.thresholdValue).toBe(30);
+      expect(result.presentationMetrics.contentDistribution.codeHeavy).toBe(1);
+    });
+
+    it('should predict vertical overflow in pixels', () => {
+      const analyzer = new ContentAnalyzer();
+      const result = analyzer.analyzeMarkdown(presentation);
+
+      const overflow = result.slideAnalysis[2].predictedIssues.find(
+        issue => issue.element === 'Slide content'
+      );
+      expect(overflow).toBeDefined();
+      expect(overflow!.type).toBe('element-overflow');
+      expect(overflow!.thresholdValue).toBe(472);
+      expect(overflow!.overflowY).toBe(overflow!.measuredValue! - 472);
+      expect(overflow!.lineRange).toEqual({ start: 18, end: 59 });
+
+      expect(
+        result.slideAnalysis[0].predictedIssues.find(issue => issue.element === 'Slide content')
+      ).toBeUndefined();
+    });
+
+    it('should measure each slot against its own size', () => {
+      // Each item wraps to two lines in a column but fits one line at full width
+      const items = Array.from(
+        { length: 10 },
+        (_, i) => `- Item ${i + 1} explains one more detail about this topic`
+      ).join('\n');
+      const twoCols = `---
+layout: two-cols
+---
+
+# Left column
+
+Short text
+
+::right::
+
+${items}
+`;
+      const analyzer = new ContentAnalyzer();
+      const slide = analyzer.analyzeMarkdown(twoCols).slideAnalysis[0];
+
+      const overflows = slide.predictedIssues.filter(issue =>
+        issue.element.startsWith('Slide content')
+      );
+      expect(overflows).toHaveLength(1);
+      expect(overflows[0].element).toBe('Slide content (right slot)');
+      expect(overflows[0].thresholdValue).toBe(472);
+
+      // The same content fits in the single full-width slot of the default layout
+      const single = analyzer.analyzeMarkdown(
+        twoCols.replace('layout: two-cols', 'layout: default').replace('::right::', '')
+      );
+      expect(
+        single.slideAnalysis[0].predictedIssues.filter(issue => issue.element === 'Slide content')
+      ).toHaveLength(0);
+    });
+
+    it('should not predict overflow for a heading that wraps in its slot', () => {
+      const slide = new ContentAnalyzer().analyzeMarkdown(`---
+layout: two-cols
+---
+
+# Left
+
+::right::
+
+# Right column with a lot of content
+`).slideAnalysis[0];
+
+      expect(slide.predictedIssues.filter(issue => issue.element === 'H1 heading')).toEqual([]);
+    });
+
+    it('should collect all predictions', () => {
+      const analyzer = new ContentAnalyzer();
+      const result = analyzer.analyzeMarkdown(presentation);
+
+      const perSlide = result.slideAnalysis.reduce(
+        (sum, slide) => sum + slide.predictedIssues.length,
+        0
+      );
+      expect(result.predictions.totalPredicted).toBe(perSlide);
+      expect(result.predictions.predictions).toHaveLength(perSlide);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should skip slides listed in skipAnalysisForSlides', () => {
+      const analyzer = new ContentAnalyzer({ skipAnalysisForSlides: [2] });
+      const result = analyzer.analyzeMarkdown(presentation);
+
+      const slide = result.slideAnalysis[1];
+      expect(slide.skipped).toBe(true);
+      expect(slide.skipReason).toBeDefined();
+      expect(slide.predictedIssues).toHaveLength(0);
+    });
+
+    it('should use complexityThreshold for risk level', () => {
+      const strict = new ContentAnalyzer({ complexityThreshold: 0.01 });
+      const result = strict.analyzeMarkdown(presentation);
+
+      expect(result.slideAnalysis[0].riskLevel).toBe('high');
+    });
+
+    it('should apply custom thresholds', () => {
+      const analyzer = new ContentAnalyzer({ thresholds: { codeMaxLines: 50 } });
+      const result = analyzer.analyzeMarkdown(presentation);
+
+      const code = result.slideAnalysis[2].predictedIssues.find(
+        issue => issue.element === 'Code block'
+      );
+      expect(code).toBeUndefined();
+    });
+  });
+
+  describe('calibration', () => {
+    it('should pick the first default-layout slide after the cover', () => {
+      const analyzer = new ContentAnalyzer();
+      const target = analyzer.getCalibrationTarget(presentation);
+
+      expect(target.theme).toBe('default');
+      expect(target.slide).toBe(2);
+      expect(target.slideDimensions).toEqual({
+        canvasWidth: 980,
+        canvasHeight: 552,
+        aspectRatio: '16/9',
+      });
+    });
+
+    it('should predict with a measured calibration', () => {
+      const analyzer = new ContentAnalyzer();
+      const calibration = createDefaultCalibration(980, 552);
+      calibration.actualFontSizes.h1 = 24;
+
+      // A URL cannot wrap, so its measured width is compared with the slide
+      const deck = `# Cover
+
+---
+
+# https://example.com/docs/getting-started/installation/configuration-reference
+`;
+      const findHeading = (result: ReturnType<ContentAnalyzer['analyzeMarkdown']>) =>
+        result.slideAnalysis[1].predictedIssues.find(issue => issue.element === 'H1 heading');
+      const defaults = analyzer.analyzeMarkdown(deck);
+      const result = analyzer.analyzeMarkdown(deck, calibration);
+
+      expect(result.calibration).toBe(calibration);
+      expect(result.mode.capabilities.themeAnalysis).toBe(true);
+      expect(result.mode.capabilities.accuracyLevel).toBe('detailed');
+      expect(findHeading(result)!.measuredValue).toBeLessThan(findHeading(defaults)!.measuredValue!);
+    });
+
+    it('should use the cached calibration when analyzing a project', async () => {
+      const projectDir = await mkdtemp(join(tmpdir(), 'slidev-project-'));
+      try {
+        await writeFile(join(projectDir, 'slides.md'), presentation, 'utf-8');
+        await new CalibrationCache(projectDir).save({
+          ...createDefaultCalibration(980, 552),
+          themeUsed: 'default',
+          slideUsedForCalibration: 2,
+        });
+
+        const cached = await new ContentAnalyzer().analyzeProject(projectDir);
+        expect(cached.calibration?.slideUsedForCalibration).toBe(2);
+        expect(cached.mode.capabilities.themeAnalysis).toBe(true);
+
+        const uncached = await new ContentAnalyzer({ cacheEnabled: false }).analyzeProject(projectDir);
+        expect(uncached.mode.capabilities.themeAnalysis).toBe(false);
+      } finally {
+        await rm(projectDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('custom layouts', () => {
+    const customDeck = `---
+theme: default
+overflowChecker:
+  layouts:
+    sidebar:
+      slots:
+        - name: default
+          width: 50%
+          height: 100%
+---
+
+# Cover
+
+---
+layout: sidebar
+---
+
+# Jahresergebnisübersicht
+
+---
+layout: mystery
+---
+
+# Mystery slide
+`;
+
+    const findHeading = (result: ReturnType<ContentAnalyzer['analyzeMarkdown']>) =>
+      result.slideAnalysis[1].predictedIssues.find(issue => issue.element === 'H1 heading');
+
+    it('should measure slides against layouts described in frontmatter', () => {
+      const result = new ContentAnalyzer().analyzeMarkdown(customDeck);
+
+      expect(result.slideAnalysis[1].contentArea.width).toBe(434);
+      expect(findHeading(result)?.thresholdValue).toBe(434);
+    });
+
+    it('should let config file layouts take priority over frontmatter', () => {
+      const analyzer = new ContentAnalyzer({
+        layouts: { sidebar: { extends: 'default' } },
+      });
+      const result = analyzer.analyzeMarkdown(customDeck);
+
+      expect(result.slideAnalysis[1].contentArea.width).toBe(868);
+      expect(findHeading(result)).toBeUndefined();
+    });
+
+    it('should warn about unknown layouts instead of silently using the default', () => {
+      const result = new ContentAnalyzer().analyzeMarkdown(customDeck);
+
+      expect(result.warnings).toEqual([
+        'Unknown layout "mystery" (slide 3); measuring it as the default layout',
+      ]);
+    });
+
+    it('should name the layout file of undescribed project layouts', async () => {
+      const projectDir = await mkdtemp(join(tmpdir(), 'slidev-project-'));
+      try {
+        await mkdir(join(projectDir, 'layouts'));
+        await writeFile(join(projectDir, 'layouts', 'mystery.vue'), '<template><slot /></template>');
+
+        const analyzer = new ContentAnalyzer();
+        await analyzer.loadLayouts(projectDir, customDeck);
+        const result = analyzer.analyzeMarkdown(customDeck);
+
+        expect(result.warnings).toEqual([
+          `Layout "mystery" (slide 3) from ${join('layouts', 'mystery.vue')} has no slot description; measuring it as the default layout`,
+        ]);
+        expect(analyzer.getUndescribedLayouts(customDeck)).toEqual([
+          { layout: 'mystery', slide: 3, markers: [{ name: 'default', text: 'Mystery slide' }] },
+        ]);
+      } finally {
+        await rm(projectDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should use layout slots measured by an earlier browser run', async () => {
+      const projectDir = await mkdtemp(join(tmpdir(), 'slidev-project-'));
+      try {
+        await new CalibrationCache(projectDir).saveLayouts('default', 980, 552, {
+          mystery: { slots: [{ name: 'default', width: 600, height: 400 }] },
+        });
+
+        const analyzer = new ContentAnalyzer();
+        await analyzer.loadLayouts(projectDir, customDeck);
+        const result = analyzer.analyzeMarkdown(customDeck);
+
+        expect(result.slideAnalysis[2].contentArea).toEqual({ width: 600, height: 400 });
+        expect(result.warnings).toEqual([]);
+        expect(analyzer.getUndescribedLayouts(customDeck)).toEqual([]);
+      } finally {
+        await rm(projectDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
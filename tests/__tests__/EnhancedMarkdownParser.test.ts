@@ -59,6 +59,70 @@ fonts:
       expect(result.globalConfig.fonts?.sans).toBe('Roboto');
     });
 
+    it('should parse nested maps, lists and flow values in frontmatter', () => {
+      const markdown = `---
+theme: default
+overflowChecker:
+  thresholds:
+    codeMaxLines: 20
+    complexityWeights: { textDensity: 0.5, codeDensity: 0.2 }
+  layouts:
+    split:
+      padding:
+        left: 40
+      slots:
+        - name: default
+          width: 60%
+          height: 100%
+        - name: aside
+          width: 30%
+          height: 100%
+          position: right
+    wide:
+      extends: full
+---
+
+# Title
+`;
+      const { overflowChecker } = parser.parsePresentation(markdown).globalConfig;
+
+      expect(overflowChecker?.thresholds).toEqual({
+        codeMaxLines: 20,
+        complexityWeights: { textDensity: 0.5, codeDensity: 0.2 },
+      });
+      expect(overflowChecker?.layouts).toEqual({
+        split: {
+          padding: { left: 40 },
+          slots: [
+            { name: 'default', width: '60%', height: '100%' },
+            { name: 'aside', width: '30%', height: '100%', position: 'right' },
+          ],
+        },
+        wide: { extends: 'full' },
+      });
+    });
+
+    it('should parse scalar lists and block scalars in frontmatter', () => {
+      const markdown = `---
+title: Demo
+tags: [slidev, 'checker']
+addons:
+  - slidev-addon-a
+  - slidev-addon-b
+info: |
+  First line
+  Second line
+---
+
+# Title
+`;
+      const { frontmatter } = parser.parsePresentation(markdown).slides[0];
+
+      expect(frontmatter.tags).toEqual(['slidev', 'checker']);
+      expect(frontmatter.addons).toEqual(['slidev-addon-a', 'slidev-addon-b']);
+      expect(frontmatter.info).toBe('First line\nSecond line');
+    });
+
     it('should return default config when no frontmatter', () => {
       const markdown = `# Simple slide
 
@@ -186,6 +250,64 @@ plain code
       expect(code?.metadata.language).toBe('');
     });
 
+    it('should extract highlight steps from the fence info', () => {
+      const markdown = `# Steps
+
+\`\`\`ts {1|3-4|all}{lines:true}
+const a = 1;
+
+function b() {}
+export { a, b };
+\`\`\`
+`;
+      const code = parser
+        .parsePresentation(markdown)
+        .slides[0].contentNodes.find((n) => n.type === 'code-block');
+
+      expect(code?.metadata.language).toBe('ts');
+      expect(code?.metadata.steps).toEqual(
+        ['1', '3-4', 'all'].map((highlight, i) => ({
+          step: i + 1,
+          lineStart: code!.lineStart,
+          lineEnd: code!.lineEnd,
+          highlight,
+          code: 'const a = 1;\n\nfunction b() {}\nexport { a, b };',
+        }))
+      );
+    });
+
+    it('should extract the inner fences of a magic-move block as steps', () => {
+      const markdown = `# Magic
+
+\`\`\`\`md magic-move {lines: true}
+\`\`\`js
+const a = 1;
+\`\`\`
+\`\`\`js
+const a = 1;
+const b = 2;
+const c = 3;
+\`\`\`
+\`\`\`\`
+
+After
+`;
+      const nodes = parser.parsePresentation(markdown).slides[0].contentNodes;
+      const code = nodes.find((n) => n.type === 'code-block');
+      const steps = code?.metadata.steps as Array<{ step: number; lineStart: number; lineEnd: number; code: string }>;
+
+      expect(code?.metadata.magicMove).toBe(true);
+      expect(code?.metadata.lineCount).toBe(3);
+      expect(code!.lineEnd - code!.lineStart).toBe(9);
+      expect(steps.map(({ step, code }) => ({ step, code }))).toEqual([
+        { step: 1, code: 'const a = 1;' },
+        { step: 2, code: 'const a = 1;\nconst b = 2;\nconst c = 3;' },
+      ]);
+      expect(steps[0].lineStart).toBe(code!.lineStart + 1);
+      expect(steps[1].lineEnd).toBe(code!.lineEnd - 1);
+      expect(nodes.some((n) => n.type === 'paragraph' && n.text === 'After')).toBe(true);
+    });
+
     it('should extract unordered list', () => {
       const markdown = `- Item 1
 - Item 2
@@ -330,6 +452,40 @@ layout: two-cols
       expect(slot).toBeDefined();
       expect(slot?.metadata.slotName).toBe('right');
     });
+
+    it('should split content into named slots', () => {
+      const markdown = `---
+layout: two-cols
+---
+
+# Left side
+
+::right::
+
+# Right side
+
+- Item
+
+::default::
+
+More left content
+`;
+      const result = parser.parsePresentation(markdown);
+      const slots = result.slides[0].slots;
+
+      expect(slots.map((s) => s.name)).toEqual(['default', 'right']);
+      expect(slots[0].contentNodes.map((n) => n.type)).toEqual(['heading', 'paragraph']);
+      expect(slots[1].contentNodes.map((n) => n.type)).toEqual(['heading', 'list']);
+    });
+
+    it('should put all content in the default slot without separators', () => {
+      const result = parser.parsePresentation('# Title\n\nText\n');
+      const slots = result.slides[0].slots;
+
+      expect(slots).toHaveLength(1);
+      expect(slots[0].name).toBe('default');
+      expect(slots[0].contentNodes).toHaveLength(2);
+    });
   });
 
   describe('line tracking', () => {
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FontMetrics } from '../../src/calibration/FontMetrics';
+import { TextMeasurer, isFullWidth } from '../../src/calibration/TextMeasurer';
+import { buildFont } from '../fixtures/buildFont';
+
+const advances = { i: 250, W: 1000, ' ': 250, a: 500, b: 500 };
+
+describe('FontMetrics', () => {
+  it('should read advance widths in em', () => {
+    const metrics = FontMetrics.parse(buildFont('Test Sans', advances));
+
+    expect(metrics.family).toBe('Test Sans');
+    expect(metrics.getAdvance('i'.codePointAt(0)!)).toBe(0.25);
+    expect(metrics.getAdvance('W'.codePointAt(0)!)).toBe(1);
+    expect(metrics.getAdvance('z'.codePointAt(0)!)).toBeUndefined();
+  });
+
+  it('should read family names from a font file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'slidev-fonts-'));
+    try {
+      const path = join(dir, 'TestSans.ttf');
+      await writeFile(path, buildFont('Test Sans', advances));
+
+      const faces = await FontMetrics.readFaces(path);
+      expect(faces).toEqual([{ family: 'Test Sans', subfamily: 'Regular', path, faceIndex: 0 }]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('TextMeasurer', () => {
+  let fontDir: string;
+  let measurer: TextMeasurer;
+
+  beforeAll(async () => {
+    fontDir = await mkdtemp(join(tmpdir(), 'slidev-fonts-'));
+    await mkdir(join(fontDir, 'nested'));
+    await writeFile(join(fontDir, 'nested', 'TestSans.ttf'), buildFont('Test Sans', advances));
+    await writeFile(join(fontDir, 'Broken.ttf'), 'not a font');
+    measurer = await TextMeasurer.create([fontDir], false);
+  });
+
+  afterAll(async () => {
+    await rm(fontDir, { recursive: true, force: true });
+  });
+
+  it('should measure glyph widths from a font in the font-family list', () => {
+    expect(measurer.hasFont('"Test Sans", sans-serif')).toBe(true);
+
+    const narrow = measurer.measureWidth('iii', 20, '"Test Sans", sans-serif');
+    const wide = measurer.measureWidth('WWW', 20, '"Test Sans", sans-serif');
+    expect(narrow).toEqual({ width: 15, exact: true });
+    expect(wide).toEqual({ width: 60, exact: true });
+  });
+
+  it('should surface file system errors while reading font files', async () => {
+    const error = Object.assign(new Error('EMFILE: too many open files'), {
+      code: 'EMFILE',
+      syscall: 'open',
+    });
+    const readFaces = vi.spyOn(FontMetrics, 'readFaces').mockRejectedValueOnce(error);
+    try {
+      await expect(TextMeasurer.create([fontDir], false)).rejects.toThrow('EMFILE');
+    } finally {
+      readFaces.mockRestore();
+    }
+  });
+
+  it('should estimate characters the font does not cover', () => {
+    const result = measurer.measureWidth('iz', 20, 'Test Sans');
+    expect(result.width).toBe(5 + 20 * 0.6);
+    expect(result.exact).toBe(false);
+  });
+
+  it('should estimate full-width characters at 1em without fonts', () => {
+    const result = new TextMeasurer().measureWidth('日本語', 20);
+    expect(result.width).toBe(60);
+    expect(isFullWidth('あ'.codePointAt(0)!)).toBe(true);
+    expect(isFullWidth('a'.codePointAt(0)!)).toBe(false);
+  });
+
+  it('should wrap at spaces', () => {
+    // "ab " is 25px at 20px font size, so two words fit in 50px
+    const result = measurer.wrap('ab ab ab ab', 20, 50, 'Test Sans');
+    expect(result.lines).toBe(2);
+    expect(result.width).toBe(45);
+    expect(result.exact).toBe(true);
+  });
+
+  it('should wrap between full-width characters', () => {
+    const result = new TextMeasurer().wrap('日本語のテキストです', 20, 100);
+    expect(result.lines).toBe(2);
+  });
+
+  it('should keep an unbreakable word on one line', () => {
+    const result = measurer.wrap('WWWWWW', 20, 50, 'Test Sans');
+    expect(result.lines).toBe(1);
+    expect(result.width).toBe(120);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Tests for HtmlReporter
+ * Rendering of the report template (nested blocks, per-slide data, escaping)
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HtmlReporter } from '../../src/reporters/HtmlReporter.js';
+import type { CheckResult, Issue, SlideResult } from '../../src/types/index.js';
+
+function createResult(slides: SlideResult[], overrides: Partial<CheckResult> = {}): CheckResult {
+  const empty = () => ({ count: 0, slides: [] as number[] });
+  const issues = slides.flatMap(slide => slide.issues);
+  return {
+    timestamp: new Date().toISOString(),
+    totalSlides: 10,
+    slidesWithIssues: slides.filter(slide => slide.issueCount > 0).map(slide => slide.page),
+    issuesFound: issues.length,
+    summary: {
+      textOverflow: empty(),
+      elementOverflow: empty(),
+      scrollbar: empty(),
+      elementOverlap: empty(),
+      clippedContent: empty(),
+      truncatedText: empty(),
+      safeArea: empty(),
+      brokenAsset: empty(),
+      blankSlide: empty(),
+      lowResolutionImage: empty(),
+      occludedContent: empty(),
+      tinyText: empty(),
+      lowContrast: empty(),
+      fontFallback: empty(),
+      runtimeErrors: {
+        count: slides.filter(slide => slide.runtimeErrors?.length).length,
+        slides: slides.filter(slide => slide.runtimeErrors?.length).map(slide => slide.page),
+      },
+    },
+    slides,
+    ...overrides,
+  };
+}
+
+function slideResult(
+  page: number,
+  issues: Issue[],
+  runtimeErrors?: SlideResult['runtimeErrors']
+): SlideResult {
+  return { page, issueCount: issues.length, issues, runtimeErrors };
+}
+
+describe('HtmlReporter', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), 'html-reporter-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  async function render(result: CheckResult): Promise<string> {
+    const outputPath = join(outputDir, 'report.html');
+    await new HtmlReporter().report(result, outputPath);
+    return readFile(outputPath, 'utf-8');
+  }
+
+  it('should render runtime errors of a slide', async () => {
+    const html = await render(
+      createResult([
+        slideResult(
+          3,
+          [],
+          [
+            {
+              type: 'exception',
+              message: 'Cannot read properties of undefined',
+              location: 'slides.md:12:5',
+            },
+            { type: 'console', message: 'Failed to fetch' },
+          ]
+        ),
+      ])
+    );
+
+    expect(html).toContain('Slide 3');
+    expect(html).toContain('Uncaught exception');
+    expect(html).toContain('Cannot read properties of undefined');
+    expect(html).toContain('slides.md:12:5');
+    expect(html).toContain('Console error');
+    expect(html).toContain('Failed to fetch');
+    expect(html).not.toContain('{{');
+    expect(html).not.toContain('No overflow issues found!');
+  });
+
+  it('should render load errors with HTML-escaped messages', async () => {
+    const html = await render(
+      createResult([], {
+        loadErrors: [{ type: 'console', message: 'Unexpected token <div> in "main.ts" & more' }],
+      })
+    );
+
+    expect(html).toContain('Errors While Loading');
+    expect(html).toContain('Unexpected token &lt;div&gt; in &quot;main.ts&quot; &amp; more');
+    expect(html).not.toContain('<div> in');
+    expect(html).toContain('No overflow issues found!');
+    expect(html).not.toContain('{{');
+  });
+
+  it('should render nested fields of an issue', async () => {
+    const html = await render(
+      createResult([
+        slideResult(2, [
+          {
+            type: 'text-overflow',
+            element: {
+              tag: 'p',
+              class: 'lead',
+              selector: '.slidev-page-2 p.lead',
+              text: 'Long <b> text',
+            },
+            source: { file: 'slides.md', line: 14, lineEnd: 16, content: 'Long **text**' },
+            details: {
+              containerWidth: 400,
+              containerHeight: 200,
+              contentWidth: 520,
+              contentHeight: 200,
+              overflowX: 120,
+              overflowY: 0,
+            },
+          },
+        ]),
+      ])
+    );
+
+    expect(html).toContain('p.lead');
+    expect(html).toContain('.slidev-page-2 p.lead');
+    expect(html).toContain('"Long &lt;b&gt; text"');
+    expect(html).toContain('slides.md:14-16');
+    expect(html).toContain('400px × 200px');
+    expect(html).toContain('120px (horizontal), 0px (vertical)');
+    expect(html).not.toContain('{{');
+  });
+
+  it('should render the fields of every issue type', async () => {
+    const bounds = { left: 0, top: 0, right: 100, bottom: 100 };
+    const element = { tag: 'div', selector: '.target' };
+    const issues: Issue[] = [
+      {
+        type: 'element-overlap',
+        element,
+        click: 4,
+        source: {
+          file: 'slides.md',
+          line: 3,
+          lineEnd: 3,
+          content: '',
+          codeStep: { step: 2, total: 3 },
+        },
+        details: {
+          overlappedElement: { tag: 'img', selector: '.under' },
+          overlappedSource: { file: 'slides.md', line: 5, lineEnd: 5, content: '' },
+          elementBounds: bounds,
+          overlappedBounds: bounds,
+          intersection: { width: 40, height: 20, area: 800, ratio: 0.25 },
+        },
+      },
+      {
+        type: 'clipped-content',
+        element,
+        details: {
+          container: { tag: 'div', selector: '.clip' },
+          containerBounds: bounds,
+          elementBounds: bounds,
+          hidden: { left: 0, top: 0, right: 0, bottom: 30 },
+        },
+      },
+      {
+        type: 'truncated-text',
+        element,
+        details: {
+          truncation: 'line-clamp',
+          fullText: 'One two three four',
+          visibleText: 'One two',
+          hiddenCharacters: 11,
+          totalLines: 4,
+          visibleLines: 2,
+          hiddenLines: 2,
+        },
+      },
+      {
+        type: 'safe-area',
+        element,
+        details: {
+          safeBounds: bounds,
+          elementBounds: bounds,
+          intrusion: { left: 12, top: 0, right: 0, bottom: 0 },
+        },
+      },
+      {
+        type: 'broken-asset',
+        element,
+        details: { url: '/missing.png', reason: 'http-error', resourceType: 'image', status: 404 },
+      },
+      {
+        type: 'blank-slide',
+        element,
+        details: {
+          reason: 'missing-content',
+          rendered: { headings: 0, lists: 0, codeBlocks: 0, images: 0, tables: 0 },
+          missing: { codeBlocks: 2 },
+        },
+      },
+      {
+        type: 'low-resolution-image',
+        element: { tag: 'img', selector: 'img', src: '/logo.png' },
+        details: {
+          naturalWidth: 100,
+          naturalHeight: 50,
+          renderedWidth: 400,
+          renderedHeight: 200,
+          upscale: 4,
+          maxUpscale: 1.5,
+        },
+      },
+      {
+        type: 'occluded-content',
+        element,
+        details: {
+          overlay: { tag: 'footer', selector: 'footer.brand' },
+          layer: 'overlay',
+          elementBounds: bounds,
+          overlayBounds: bounds,
+          intersection: { width: 80, height: 10 },
+        },
+      },
+      {
+        type: 'tiny-text',
+        element,
+        details: { fontSize: 9, cssFontSize: 12, scale: 0.75, minFontSize: 12 },
+      },
+      {
+        type: 'low-contrast',
+        element,
+        details: {
+          foreground: '#777777',
+          background: '#888888',
+          backgroundSampled: false,
+          ratio: 1.2,
+          minContrast: 4.5,
+        },
+      },
+    ];
+    const warnings: Issue[] = [
+      {
+        type: 'font-fallback',
+        element,
+        details: { family: 'Inter', role: 'sans', status: 'failed', elementCount: 3 },
+      },
+    ];
+
+    const html = await render(createResult([{ ...slideResult(7, issues), warnings }]));
+
+    expect(html).toContain('slide 7, click 4');
+    expect(html).toContain('<strong>Code step:</strong> 2/3');
+    expect(html).toContain('.under (slides.md:5)');
+    expect(html).toContain('40px × 20px (25% of the smaller element)');
+    expect(html).toContain('<strong>Clipped by:</strong> .clip');
+    expect(html).toContain('bottom 30px');
+    expect(html).toContain('line-clamp, 2 of 4 lines hidden');
+    expect(html).toContain('<strong>Inside margin:</strong> left 12px');
+    expect(html).toContain('<strong>URL:</strong> /missing.png');
+    expect(html).toContain('HTTP 404');
+    expect(html).toContain('Not rendered: 2 code blocks');
+    expect(html).toContain('<strong>Image:</strong> /logo.png');
+    expect(html).toContain('100×50px shown at 400×200 device px');
+    expect(html).toContain('footer.brand (overlay)');
+    expect(html).toContain('9px (12px × 0.75), minimum 12px');
+    expect(html).toContain('1.2:1, minimum 4.5:1');
+    expect(html).toContain('&quot;Inter&quot; (fonts.sans), web font failed to load');
+    expect(html).toContain('Font Fallback Detected (warning)');
+    expect(html).toContain('10 issues');
+    expect(html).not.toContain('{{');
+  });
+});
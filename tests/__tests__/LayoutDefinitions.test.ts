@@ -2,10 +2,12 @@
  * Tests for Layout Definitions
  * TDD: Define layout content areas for Slidev built-in layouts
  */
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import {
   getLayoutContentArea,
+  getLayoutSlot,
   calculateContentArea,
+  LayoutRegistry,
   LAYOUT_DEFINITIONS,
   DEFAULT_PADDING,
 } from '../../src/calibration/LayoutDefinitions.js';
@@ -187,4 +189,90 @@ describe('LayoutDefinitions', () => {
       expect(layout.totalAvailableArea).toBe(slot1Area + slot2Area);
     });
   });
+
+  describe('getLayoutSlot', () => {
+    it('should map the default slot to the first column of two-cols', () => {
+      const slot = getLayoutSlot('two-cols', defaultCanvas.width, defaultCanvas.height);
+      expect(slot?.name).toBe('left');
+    });
+
+    it('should map named slots to the slot with the same name', () => {
+      const slot = getLayoutSlot('two-cols-header', defaultCanvas.width, defaultCanvas.height, 'right');
+      expect(slot?.name).toBe('right');
+      expect(slot?.position).toBe('right');
+    });
+
+    it('should map the default slot to the header of two-cols-header', () => {
+      const slot = getLayoutSlot('two-cols-header', defaultCanvas.width, defaultCanvas.height, 'default');
+      expect(slot?.name).toBe('header');
+    });
+
+    it('should return undefined for slots the layout does not render', () => {
+      expect(getLayoutSlot('default', defaultCanvas.width, defaultCanvas.height, 'right')).toBeUndefined();
+    });
+  });
+
+  describe('LayoutRegistry', () => {
+    let registry: LayoutRegistry;
+
+    beforeEach(() => {
+      registry = new LayoutRegistry();
+    });
+
+    it('should resolve percentage and px slot sizes against the content area', () => {
+      registry.register('split', {
+        slots: [
+          { name: 'default', width: '60%', height: '100%', position: 'left' },
+          { name: 'aside', width: 300, height: '50%', position: 'right' },
+        ],
+      });
+
+      const layout = registry.getContentArea('split', defaultCanvas.width, defaultCanvas.height);
+      expect(layout.slots).toEqual([
+        { name: 'default', width: 520, height: 472, position: 'left' },
+        { name: 'aside', width: 300, height: 236, position: 'right' },
+      ]);
+      expect(layout.totalAvailableArea).toBe(520 * 472 + 300 * 236);
+    });
+
+    it('should use a single padded slot when only padding is given', () => {
+      registry.register('roomy', { padding: { left: 100, right: 100 } });
+
+      const slot = registry.getSlot('roomy', defaultCanvas.width, defaultCanvas.height);
+      expect(slot).toEqual({ name: 'default', width: 780, height: 472, position: 'full' });
+    });
+
+    it('should copy the slots of the extended built-in layout', () => {
+      registry.register('my-cols', { extends: 'two-cols' });
+
+      const custom = registry.getContentArea('my-cols', defaultCanvas.width, defaultCanvas.height);
+      const builtin = getLayoutContentArea('two-cols', defaultCanvas.width, defaultCanvas.height);
+      expect(custom.slots).toEqual(builtin.slots);
+    });
+
+    it('should take priority over built-in layouts until cleared', () => {
+      registry.register('cover', { padding: { top: 200 } });
+      expect(registry.getSlot('cover', defaultCanvas.width, defaultCanvas.height)?.height).toBe(312);
+
+      registry.clear();
+      expect(registry.getSlot('cover', defaultCanvas.width, defaultCanvas.height)?.height).toBe(472);
+    });
+
+    it('should report registered and built-in layouts as known', () => {
+      registry.register('split', { extends: 'default' });
+
+      expect(registry.isKnown('split')).toBe(true);
+      expect(registry.isKnown('two-cols')).toBe(true);
+      expect(registry.isKnown('unknown-layout')).toBe(false);
+      expect(registry.isKnown('toString')).toBe(false);
+    });
+
+    it('should not share layouts between registries', () => {
+      registry.register('split', { extends: 'default' });
+      registry.register('cover', { padding: { top: 200 } });
+
+      expect(new LayoutRegistry().isKnown('split')).toBe(false);
+      expect(getLayoutSlot('cover', defaultCanvas.width, defaultCanvas.height)?.height).toBe(472);
+    });
+  });
 });
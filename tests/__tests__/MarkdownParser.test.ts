@@ -112,4 +112,26 @@ console.log(x);
       }
     });
   });
+
+  describe('findAssetReference', () => {
+    it('should find the line referencing a rendered image URL', () => {
+      const markdown = `# Slide
+![Chart](/images/chart.png)
+![Missing](./images/missing%20photo.png)`;
+
+      const parser = new MarkdownParser();
+      const element = parser.findAssetReference(
+        markdown,
+        'http://localhost:3030/images/missing%20photo.png',
+        10
+      );
+
+      expect(element?.line).toBe(12);
+    });
+
+    it('should return null when no line references the asset', () => {
+      const parser = new MarkdownParser();
+      expect(parser.findAssetReference('# Slide', 'http://localhost:3030/logo.svg', 1)).toBeNull();
+    });
+  });
 });
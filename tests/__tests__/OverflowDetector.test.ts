@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { chromium, Browser, Page } from 'playwright';
-import { OverflowDetector } from '../../src/checker/OverflowDetector';
+import { OverflowDetector, parseSafeAreaInset } from '../../src/checker/OverflowDetector';
 import { DetectionConfig } from '../../src/types';
 
 describe('OverflowDetector', () => {
@@ -11,6 +11,21 @@ describe('OverflowDetector', () => {
     textOverflow: true,
     elementOverflow: true,
     scrollbar: true,
+    elementOverlap: true,
+    clippedContent: true,
+    truncatedText: true,
+    safeArea: false,
+    brokenAsset: true,
+    blankSlide: true,
+    lowResolutionImage: true,
+    maxImageUpscale: 1.5,
+    occludedContent: true,
+    overlays: ['.slidev-page-indicator'],
+    tinyText: true,
+    minFontSize: 12,
+    lowContrast: false,
+    fontFallback: true,
+    declaredFonts: [],
     exclude: ['.slidev-page-indicator', '.slidev-nav'],
     threshold: 1,
   };
@@ -128,6 +143,419 @@ describe('OverflowDetector', () => {
     });
   });
 
+  describe('detectElementOverlap', () => {
+    it('should report a positioned box covering body text', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-page" style="width: 980px; height: 552px; position: relative;">
+              <div class="slidev-layout" style="position: relative; width: 980px; height: 552px;">
+                <p style="font-size: 24px;">Revenue grew in every region this quarter</p>
+                <div class="callout" style="position: absolute; left: 40px; top: 0; width: 300px; background: white;">
+                  <p>Draft numbers</p>
+                </div>
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      await page.waitForTimeout(100);
+
+      const detector = new OverflowDetector(page, defaultConfig);
+      const issues = await detector.detectIssues();
+
+      const overlaps = issues.filter(i => i.type === 'element-overlap');
+      expect(overlaps).toHaveLength(1);
+      if (overlaps[0].type === 'element-overlap') {
+        expect(overlaps[0].element.text).toBe('Draft numbers');
+        expect(overlaps[0].details.overlappedElement.text).toBe(
+          'Revenue grew in every region this quarter'
+        );
+        expect(overlaps[0].details.intersection.width).toBeGreaterThan(0);
+        expect(overlaps[0].details.intersection.height).toBeGreaterThan(0);
+      }
+    });
+
+    it('should ignore decorative and excluded elements', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-page" style="width: 980px; height: 552px; position: relative;">
+              <div class="slidev-layout" style="position: relative; width: 980px; height: 552px;">
+                <p style="font-size: 24px;">Revenue grew in every region this quarter</p>
+                <div aria-hidden="true" style="position: absolute; left: 40px; top: 0;">
+                  <p>Watermark</p>
+                </div>
+                <div class="slidev-nav" style="position: absolute; left: 40px; top: 0;">
+                  <p>Navigation</p>
+                </div>
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      await page.waitForTimeout(100);
+
+      const detector = new OverflowDetector(page, defaultConfig);
+      const issues = await detector.detectIssues();
+
+      expect(issues.filter(i => i.type === 'element-overlap')).toHaveLength(0);
+    });
+  });
+
+  describe('detectClippedContent', () => {
+    it('should report content cut off by a clipping ancestor', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-page" style="width: 980px; height: 552px; position: relative;">
+              <div class="slidev-layout">
+                <div class="card" style="width: 300px; height: 100px; overflow: hidden;">
+                  <div class="card-body">
+                    <p style="height: 160px; margin: 0;">Quarterly results</p>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      await page.waitForTimeout(100);
+
+      const detector = new OverflowDetector(page, defaultConfig);
+      const issues = await detector.detectIssues();
+
+      const clipped = issues.filter(i => i.type === 'clipped-content');
+      expect(clipped).toHaveLength(1);
+      if (clipped[0].type === 'clipped-content') {
+        expect(clipped[0].element.selector).toBe('div.card-body');
+        expect(clipped[0].details.container.selector).toBe('div.card');
+        expect(clipped[0].details.hidden.bottom).toBeCloseTo(60, 0);
+        expect(clipped[0].details.hidden.right).toBe(0);
+      }
+    });
+  });
+
+  describe('detectTruncatedText', () => {
+    it('should report lines hidden by line-clamp with the full text', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-page" style="width: 980px; height: 552px; position: relative;">
+              <div class="slidev-layout">
+                <p class="summary" style="width: 200px; font-size: 16px; line-height: 20px; display: -webkit-box; -webkit-box-orient: vertical; -webkit-line-clamp: 2; overflow: hidden;">
+                  One two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen seventeen eighteen
+                </p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      await page.waitForTimeout(100);
+
+      const detector = new OverflowDetector(page, defaultConfig);
+      const issues = await detector.detectIssues();
+
+      expect(issues.filter(i => i.type === 'text-overflow')).toHaveLength(0);
+      const truncated = issues.filter(i => i.type === 'truncated-text');
+      expect(truncated).toHaveLength(1);
+      if (truncated[0].type === 'truncated-text') {
+        expect(truncated[0].details.truncation).toBe('line-clamp');
+        expect(truncated[0].details.visibleLines).toBe(2);
+        expect(truncated[0].details.hiddenLines).toBeGreaterThan(0);
+        expect(truncated[0].details.fullText).toMatch(/eighteen$/);
+        expect(truncated[0].details.visibleText.length).toBeLessThan(
+          truncated[0].details.fullText.length
+        );
+      }
+    });
+  });
+
+  describe('detectSafeArea', () => {
+    it('should report text inside the safe-area margin', async () => {
+      await page.setContent(`
+        <html>
+          <body style="margin: 0;">
+            <div class="slidev-page" style="width: 980px; height: 552px; position: relative;">
+              <div class="slidev-layout" style="width: 980px; height: 552px; padding: 0 0 0 10px; box-sizing: border-box;">
+                <p style="margin: 200px 0 0;">Close to the left edge</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      await page.waitForTimeout(100);
+
+      const detector = new OverflowDetector(page, {
+        ...defaultConfig,
+        safeArea: true,
+        safeAreaInset: parseSafeAreaInset('5%'),
+      });
+      const issues = await detector.detectIssues();
+
+      const safeArea = issues.filter(i => i.type === 'safe-area');
+      expect(safeArea).toHaveLength(1);
+      if (safeArea[0].type === 'safe-area') {
+        expect(safeArea[0].details.intrusion.left).toBeCloseTo(39, 0);
+        expect(safeArea[0].details.intrusion.right).toBe(0);
+      }
+    });
+
+    it('should parse px and percentage insets', () => {
+      expect(parseSafeAreaInset(24)).toEqual({ value: 24, unit: 'px' });
+      expect(parseSafeAreaInset('24px')).toEqual({ value: 24, unit: 'px' });
+      expect(parseSafeAreaInset('5%')).toEqual({ value: 5, unit: '%' });
+      expect(() => parseSafeAreaInset('five')).toThrow('Invalid safe-area inset');
+    });
+  });
+
+  describe('detectBrokenAssets', () => {
+    it('should report images that cannot be decoded', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-page" style="width: 980px; height: 552px; position: relative;">
+              <div class="slidev-layout">
+                <img src="data:image/png;base64,bm90IGFuIGltYWdl" alt="Architecture diagram" />
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      await page.waitForTimeout(100);
+
+      const detector = new OverflowDetector(page, defaultConfig);
+      const issues = await detector.detectIssues();
+
+      const broken = issues.filter(i => i.type === 'broken-asset');
+      expect(broken).toHaveLength(1);
+      if (broken[0].type === 'broken-asset') {
+        expect(broken[0].element.text).toBe('Architecture diagram');
+        expect(broken[0].details.reason).toBe('decode-failed');
+      }
+    });
+  });
+
+  describe('detectLowResolutionImages', () => {
+    it('should report images stretched beyond the upscale ratio', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-layout" style="width: 980px; height: 552px;">
+              <img id="stretched" alt="Screenshot" style="width: 400px; height: 300px;">
+              <img id="native" alt="Logo" style="width: 40px; height: 30px;">
+            </div>
+          </body>
+        </html>
+      `);
+
+      // 40×30 raster image
+      await page.evaluate(async () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = 40;
+        canvas.height = 30;
+        const src = canvas.toDataURL('image/png');
+        const images = Array.from(document.querySelectorAll('img'));
+        images.forEach(image => (image.src = src));
+        await Promise.all(images.map(image => image.decode()));
+      });
+
+      const detector = new OverflowDetector(page, {
+        ...defaultConfig,
+        brokenAsset: false,
+        elementOverflow: false,
+      });
+      const issues = (await detector.detectIssues()).filter(i => i.type === 'low-resolution-image');
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].element.id).toBe('stretched');
+      if (issues[0].type === 'low-resolution-image') {
+        expect(issues[0].details.naturalWidth).toBe(40);
+        expect(issues[0].details.upscale).toBe(10);
+      }
+    });
+  });
+
+  describe('detectOccludedContent', () => {
+    it('should report text under global-top layers and overlays', async () => {
+      await page.setContent(`
+        <html>
+          <body style="margin: 0;">
+            <div id="slide-content" style="position: relative; width: 980px; height: 552px;">
+              <div class="slidev-page" style="position: absolute; inset: 0;">
+                <div class="slidev-layout" style="padding: 20px;">
+                  <p id="intro" style="margin: 0;">Intro text stays clear</p>
+                  <p id="last" style="position: absolute; top: 500px; left: 20px; margin: 0;">Last bullet</p>
+                  <p id="corner" style="position: absolute; top: 20px; right: 20px; margin: 0;">Corner note</p>
+                </div>
+              </div>
+              <div style="position: absolute; inset: 0; pointer-events: none;">
+                <footer style="position: absolute; bottom: 0; width: 100%; height: 60px; background: navy;"></footer>
+              </div>
+              <div class="slidev-page-indicator" style="position: absolute; top: 10px; right: 10px; width: 120px; height: 40px;">3 / 10</div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      const detector = new OverflowDetector(page, {
+        ...defaultConfig,
+        elementOverflow: false,
+        elementOverlap: false,
+      });
+      const issues = (await detector.detectIssues()).filter(i => i.type === 'occluded-content');
+
+      expect(issues.map(issue => issue.element.id).sort()).toEqual(['corner', 'last']);
+      const layers = issues.map(issue => issue.type === 'occluded-content' && issue.details.layer);
+      expect(layers.sort()).toEqual(['global-top', 'overlay']);
+    });
+  });
+
+  describe('detectTinyText', () => {
+    it('should measure font sizes in slide canvas px with zoom applied', async () => {
+      await page.setContent(`
+        <html>
+          <body style="margin: 0;">
+            <div id="slide-content" style="width: 980px; height: 552px; transform: scale(2); transform-origin: top left;">
+              <div class="slidev-page" style="width: 980px; height: 552px; transform: scale(0.7); transform-origin: top left;">
+                <div class="slidev-layout">
+                  <h1 style="font-size: 40px;">Readable title</h1>
+                  <p id="small" style="font-size: 16px;">Shrunk by <strong>zoom</strong></p>
+                </div>
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      const detector = new OverflowDetector(page, {
+        ...defaultConfig,
+        elementOverflow: false,
+        textOverflow: false,
+      });
+      const issues = (await detector.detectIssues()).filter(i => i.type === 'tiny-text');
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].element.id).toBe('small');
+      if (issues[0].type === 'tiny-text') {
+        expect(issues[0].details.fontSize).toBeCloseTo(11.2);
+        expect(issues[0].details.scale).toBeCloseTo(0.7);
+      }
+    });
+  });
+
+  describe('detectLowContrast', () => {
+    it('should compare text with solid and image backgrounds', async () => {
+      await page.setContent(`
+        <html>
+          <body style="margin: 0;">
+            <div class="slidev-layout" style="width: 980px; height: 552px; background: #fff;">
+              <p id="dark" style="color: #222;">Readable text</p>
+              <p id="faint" style="color: #bbb;">Faint caption</p>
+              <div style="background: linear-gradient(#111, #111); padding: 10px;">
+                <p id="on-image" style="color: #333;">Dark text on a dark picture</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      const detector = new OverflowDetector(page, {
+        ...defaultConfig,
+        lowContrast: true,
+        minContrast: 4.5,
+      });
+      const issues = (await detector.detectIssues()).filter(i => i.type === 'low-contrast');
+
+      expect(issues.map(issue => issue.element.id)).toEqual(['faint', 'on-image']);
+      if (issues[1].type === 'low-contrast') {
+        expect(issues[1].details.backgroundSampled).toBe(true);
+        expect(issues[1].details.background).toBe('#111111');
+      }
+    });
+  });
+
+  describe('detectBlankSlide', () => {
+    it('should report an empty slide and content missing from the Markdown', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-page" style="width: 980px; height: 552px;">
+              <div class="slidev-layout" style="width: 980px; height: 552px;">
+                <div class="slidev-vclick-hidden"><p>Revealed later</p></div>
+              </div>
+            </div>
+          </body>
+        </html>
+      `);
+
+      const detector = new OverflowDetector(page, defaultConfig);
+      const expected = { headings: 1, lists: 1, codeBlocks: 0, images: 0, tables: 0, blocks: 2 };
+
+      const empty = await detector.detectBlankSlide();
+      expect(empty?.details.reason).toBe('empty');
+      expect(await detector.detectBlankSlide({ ...expected, headings: 0, lists: 0, blocks: 0 })).toBeNull();
+
+      await page.evaluate(() => {
+        document.querySelector('.slidev-layout')!.innerHTML = '<h1>Agenda</h1>';
+      });
+
+      const missing = await detector.detectBlankSlide(expected);
+      expect(missing?.details.reason).toBe('missing-content');
+      expect(missing?.details.missing).toEqual({ lists: 1 });
+      expect(await detector.detectBlankSlide()).toBeNull();
+    });
+  });
+
+  describe('detectFontFallback', () => {
+    it('should report text set in a declared font that failed to load', async () => {
+      await page.setContent(`
+        <html>
+          <head>
+            <style>
+              @font-face { font-family: 'Missing Sans'; src: url('data:font/woff2;base64,AAAA'); }
+            </style>
+          </head>
+          <body>
+            <div class="slidev-layout" style="width: 980px; height: 552px; font-family: 'Missing Sans', sans-serif;">
+              <h1 id="title">Roadmap</h1>
+              <p>Next quarter</p>
+              <code style="font-family: monospace;">npm run build</code>
+            </div>
+          </body>
+        </html>
+      `);
+      await page.evaluate(async () => {
+        await document.fonts.ready;
+      });
+
+      const detector = new OverflowDetector(page, {
+        ...defaultConfig,
+        declaredFonts: [
+          { family: 'Missing Sans', role: 'sans' },
+          { family: 'Not Installed Mono', role: 'mono' },
+        ],
+      });
+      const issues = await detector.detectFontFallback();
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].element.id).toBe('title');
+      expect(issues[0].details).toEqual({
+        family: 'Missing Sans',
+        role: 'sans',
+        status: 'failed',
+        elementCount: 2,
+      });
+      expect(await new OverflowDetector(page, defaultConfig).detectFontFallback()).toEqual([]);
+    });
+  });
+
   describe('detectScrollbar', () => {
     it('should detect vertical scrollbar', async () => {
       await page.setContent(`
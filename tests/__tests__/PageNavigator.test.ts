@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
 import { chromium, Browser, Page } from 'playwright';
 import { PageNavigator } from '../../src/checker/PageNavigator';
 
@@ -86,6 +86,79 @@ describe('PageNavigator', () => {
     });
   });
 
+  describe('click steps', () => {
+    it('should read the click count and go to a click step with $slidev.nav', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-page">Slide 1</div>
+            <script>
+              window.$slidev = {
+                nav: {
+                  currentPage: 3,
+                  clicks: 0,
+                  clicksTotal: 4,
+                  go(no, clicks) {
+                    this.currentPage = no;
+                    this.clicks = clicks ?? 0;
+                  },
+                },
+              };
+            </script>
+          </body>
+        </html>
+      `);
+
+      const navigator = new PageNavigator(page);
+      expect(await navigator.getClicksTotal()).toBe(4);
+
+      expect(await navigator.goToClick(2)).toBe(true);
+      const nav = await page.evaluate(() => {
+        const { currentPage, clicks } = (window as any).$slidev.nav;
+        return { currentPage, clicks };
+      });
+      expect(nav).toEqual({ currentPage: 3, clicks: 2 });
+    });
+
+    it('should report no click steps without the Slidev navigation API', async () => {
+      // setContent keeps the window, and with it $slidev of the previous test
+      await page.goto('about:blank');
+      await page.setContent('<html><body><div class="slidev-page">Slide 1</div></body></html>');
+
+      const navigator = new PageNavigator(page);
+      expect(await navigator.getClicksTotal()).toBe(0);
+      expect(await navigator.goToClick(1)).toBe(false);
+    });
+
+    it('should report a failed click navigation instead of throwing', async () => {
+      await page.goto('about:blank');
+      await page.setContent(`
+        <html>
+          <body>
+            <script>
+              window.$slidev = {
+                nav: {
+                  currentPage: 2,
+                  go() {
+                    throw new Error('Navigation failed');
+                  },
+                },
+              };
+            </script>
+          </body>
+        </html>
+      `);
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      try {
+        expect(await new PageNavigator(page).goToClick(1)).toBe(false);
+        expect(consoleError).toHaveBeenCalled();
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+  });
+
   describe('getCurrentSlideNumber', () => {
     it('should return current slide number', async () => {
       await page.setContent(`
@@ -128,4 +201,47 @@ describe('PageNavigator', () => {
       expect(elapsed).toBeLessThan(5000);
     });
   });
+
+  describe('waitForStableRender', () => {
+    it('should wait for rendering to stop and give up on a slide that keeps changing', async () => {
+      await page.setContent(`
+        <html>
+          <body>
+            <div class="slidev-page active" style="width: 980px; height: 552px;">
+              <div id="diagram"></div>
+            </div>
+          </body>
+        </html>
+      `);
+      // A diagram drawn in steps, like an async component that renders after loading
+      await page.evaluate(() => {
+        let step = 0;
+        const timer = setInterval(() => {
+          const diagram = document.getElementById('diagram')!;
+          if (++step < 10) {
+            diagram.textContent = `Loading ${step}`;
+          } else {
+            diagram.innerHTML = '<svg width="400" height="300"></svg>';
+            clearInterval(timer);
+          }
+        }, 30);
+      });
+
+      const navigator = new PageNavigator(page, { settleTimeout: 2000 });
+      await navigator.waitForStableRender();
+
+      expect(await page.locator('#diagram svg').count()).toBe(1);
+      expect(navigator.getRenderWait().settled).toBe(true);
+      expect(navigator.getRenderWait().time).toBeGreaterThanOrEqual(270);
+
+      await page.evaluate(() => {
+        setInterval(() => {
+          document.getElementById('diagram')!.textContent = String(Date.now());
+        }, 10);
+      });
+      await navigator.waitForStableRender();
+
+      expect(navigator.getRenderWait().settled).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,124 @@
+/**
+ * Tests for PredictionMatcher
+ * Matching static predictions against issues detected in the browser
+ */
+import { describe, it, expect } from 'vitest';
+import { ContentAnalyzer } from '../../src/analysis/ContentAnalyzer.js';
+import { matchPredictions } from '../../src/analysis/PredictionMatcher.js';
+import type { ContentAnalysisResult, Issue, SlideResult } from '../../src/types/index.js';
+
+const markdown = `# This is an extremely long heading that will certainly not fit on a single line of the slide
+
+Body text
+
+---
+
+# Another extremely long heading that is also far too wide to fit on one line of a slide
+
+---
+
+# Short
+`;
+
+function createIssue(line: number, lineEnd = line): Issue {
+  return {
+    type: 'element-overflow',
+    element: { tag: 'h1', selector: 'h1' },
+    source: { file: 'slides.md', line, lineEnd, content: '' },
+    details: {
+      slideBounds: { left: 0, top: 0, right: 980, bottom: 552 },
+      elementBounds: { left: 0, top: 0, right: 1200, bottom: 60 },
+      overflow: { left: 0, top: 0, right: 220, bottom: 0 },
+    },
+  };
+}
+
+function slideResult(page: number, issues: Issue[]): SlideResult {
+  return { page, issueCount: issues.length, issues };
+}
+
+describe('matchPredictions', () => {
+  let analysis: ContentAnalysisResult;
+
+  const analyze = () => new ContentAnalyzer().analyzeMarkdown(markdown);
+
+  it('should confirm predictions whose line range overlaps an actual issue', () => {
+    analysis = analyze();
+    const slides = [slideResult(1, [createIssue(1)])];
+
+    const accuracy = matchPredictions(analysis, slides, [1, 2, 3]);
+
+    const [first, second] = analysis.predictions.predictions;
+    expect(first.slideIndex).toBe(0);
+    expect(first.confirmed).toBe(true);
+    expect(second.slideIndex).toBe(1);
+    expect(second.confirmed).toBe(false);
+
+    expect(accuracy.predicted).toBe(2);
+    expect(accuracy.confirmed).toBe(1);
+    expect(accuracy.falsePositives).toBe(1);
+    expect(accuracy.falseNegatives).toBe(0);
+    expect(accuracy.precision).toBe(0.5);
+    expect(accuracy.recall).toBe(1);
+    expect(analysis.predictions.accuracy).toEqual(accuracy);
+  });
+
+  it('should count unpredicted issues as false negatives', () => {
+    analysis = analyze();
+    const slides = [slideResult(1, [createIssue(1), createIssue(3)]), slideResult(3, [createIssue(9)])];
+
+    const accuracy = matchPredictions(analysis, slides, [1, 2, 3]);
+
+    expect(analysis.predictions.totalActual).toBe(3);
+    expect(accuracy.falseNegatives).toBe(2);
+    expect(accuracy.recall).toBe(0.33);
+  });
+
+  it('should only match and count overflow issues', () => {
+    analysis = analyze();
+    const tinyText: Issue = {
+      type: 'tiny-text',
+      element: { tag: 'h1', selector: 'h1' },
+      source: { file: 'slides.md', line: 1, lineEnd: 1, content: '' },
+      details: { fontSize: 9, cssFontSize: 9, scale: 1, minFontSize: 12 },
+    };
+
+    const accuracy = matchPredictions(analysis, [slideResult(1, [tinyText])], [1, 2, 3]);
+
+    expect(analysis.predictions.predictions[0].confirmed).toBe(false);
+    expect(analysis.predictions.totalActual).toBe(0);
+    expect(accuracy.confirmed).toBe(0);
+    expect(accuracy.falseNegatives).toBe(0);
+  });
+
+  it('should not match issues on a different slide', () => {
+    analysis = analyze();
+    // Line 1 belongs to slide 1, but the issue was reported on slide 2
+    const slides = [slideResult(2, [createIssue(1)])];
+
+    const accuracy = matchPredictions(analysis, slides, [1, 2, 3]);
+
+    expect(accuracy.confirmed).toBe(0);
+    expect(accuracy.falseNegatives).toBe(1);
+  });
+
+  it('should not match issues without source information', () => {
+    analysis = analyze();
+    const issue = createIssue(1);
+    delete issue.source;
+
+    const accuracy = matchPredictions(analysis, [slideResult(1, [issue])], [1, 2, 3]);
+
+    expect(accuracy.confirmed).toBe(0);
+    expect(accuracy.falseNegatives).toBe(1);
+  });
+
+  it('should ignore predictions on slides that were not checked', () => {
+    analysis = analyze();
+
+    const accuracy = matchPredictions(analysis, [slideResult(1, [createIssue(1)])], [1]);
+
+    expect(accuracy.predicted).toBe(1);
+    expect(accuracy.precision).toBe(1);
+  });
+});
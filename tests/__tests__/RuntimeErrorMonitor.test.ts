@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Page } from 'playwright';
+import { RuntimeErrorMonitor } from '../../src/checker/RuntimeErrorMonitor';
+
+/**
+ * Console message as emitted by Playwright
+ */
+function consoleMessage(type: string, text: string) {
+  return {
+    type: () => type,
+    text: () => text,
+    location: () => ({ url: 'http://localhost:3030/main.ts', lineNumber: 9, columnNumber: 4 }),
+  };
+}
+
+describe('RuntimeErrorMonitor', () => {
+  it('should collect console errors and exceptions until taken', () => {
+    const page = new EventEmitter();
+    const monitor = new RuntimeErrorMonitor(page as unknown as Page);
+
+    page.emit('console', consoleMessage('log', 'ready'));
+    page.emit('console', consoleMessage('error', 'Chart data missing'));
+    page.emit('console', consoleMessage('error', 'Chart data missing'));
+    const error = new Error('x is not defined');
+    error.stack = 'ReferenceError: x is not defined\n    at setup (http://localhost:3030/slides.ts:3:7)';
+    page.emit('pageerror', error);
+
+    expect(monitor.take()).toEqual([
+      {
+        type: 'console',
+        message: 'Chart data missing',
+        location: 'http://localhost:3030/main.ts:10:5',
+      },
+      {
+        type: 'exception',
+        message: 'x is not defined',
+        location: 'setup (http://localhost:3030/slides.ts:3:7)',
+      },
+    ]);
+    expect(monitor.take()).toEqual([]);
+  });
+
+  it('should leave failed requests to broken-asset detection', () => {
+    const page = new EventEmitter();
+    const monitor = new RuntimeErrorMonitor(page as unknown as Page);
+
+    page.emit(
+      'console',
+      consoleMessage('error', 'Failed to load resource: the server responded with a status of 404')
+    );
+
+    expect(monitor.take()).toEqual([]);
+  });
+});
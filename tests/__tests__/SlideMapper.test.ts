@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SlideMapper } from '../../src/parsers/SlideMapper';
+import { CodeBlockState, Issue } from '../../src/types';
+
+const slides = `# Intro
+
+---
+
+# Code
+
+\`\`\`ts {1|2-3}
+const a = 1;
+const b = 2;
+const c = 3;
+\`\`\`
+
+\`\`\`\`md magic-move
+\`\`\`js
+short();
+\`\`\`
+\`\`\`js
+const somethingMuchLonger = compute();
+\`\`\`
+\`\`\`\`
+
+---
+
+Revenue grew in every region
+
+<div v-drag>
+
+Draft numbers
+
+</div>
+
+![Chart](/images/chart.png)
+![Team](/images/team.png)
+`;
+
+/**
+ * Scrollbar issue on a rendered code block
+ */
+function codeIssue(codeBlock: CodeBlockState): Issue {
+  return {
+    type: 'scrollbar',
+    element: { tag: 'pre', selector: 'pre.shiki.slidev-code', codeBlock },
+    details: { scrollbarType: 'horizontal', overflow: 40 },
+  };
+}
+
+describe('SlideMapper', () => {
+  let projectDir: string;
+  let mapper: SlideMapper;
+
+  beforeAll(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'slidev-mapper-'));
+    await writeFile(join(projectDir, 'slides.md'), slides, 'utf-8');
+    mapper = new SlideMapper();
+    await mapper.loadProject(projectDir);
+  });
+
+  afterAll(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should attribute a highlighted code block to its fence and highlight step', () => {
+    const issue = mapper.addSourceInfo(
+      2,
+      codeIssue({ index: 0, highlightedLines: [2, 3], text: 'const a = 1;\nconst b = 2;\nconst c = 3;' })
+    );
+
+    expect(issue.source?.line).toBe(7);
+    expect(issue.source?.lineEnd).toBe(11);
+    expect(issue.source?.codeStep).toEqual({ step: 2, total: 2, highlight: '2-3' });
+  });
+
+  it('should attribute a magic-move block to the inner fence shown', () => {
+    const issue = mapper.addSourceInfo(
+      2,
+      codeIssue({ index: 1, highlightedLines: [], text: 'const somethingMuchLonger = compute();' })
+    );
+
+    expect(issue.source?.line).toBe(17);
+    expect(issue.source?.lineEnd).toBe(19);
+    expect(issue.source?.content).toBe('```js\nconst somethingMuchLonger = compute();\n```');
+    expect(issue.source?.codeStep).toEqual({ step: 2, total: 2, highlight: undefined });
+  });
+
+  it('should map both elements of an overlap', () => {
+    const issue = mapper.addSourceInfo(3, {
+      type: 'element-overlap',
+      element: { tag: 'p', selector: 'p', text: 'Draft numbers' },
+      details: {
+        overlappedElement: { tag: 'p', selector: 'p', text: 'Revenue grew in every region' },
+        elementBounds: { left: 40, top: 0, right: 340, bottom: 30 },
+        overlappedBounds: { left: 0, top: 0, right: 400, bottom: 30 },
+        intersection: { width: 300, height: 30, area: 9000, ratio: 1 },
+      },
+    });
+
+    expect(issue.source?.line).toBe(28);
+    expect(issue.type === 'element-overlap' && issue.details.overlappedSource?.line).toBe(24);
+  });
+
+  it('should map a broken image to the line referencing its src', () => {
+    const issue = mapper.addSourceInfo(3, {
+      type: 'broken-asset',
+      element: { tag: 'img', selector: 'img', src: 'http://localhost:3030/images/team.png' },
+      details: {
+        url: 'http://localhost:3030/images/team.png',
+        reason: 'http-error',
+        resourceType: 'image',
+        status: 404,
+      },
+    });
+
+    expect(issue.source?.line).toBe(33);
+    expect(issue.source?.content).toBe('![Team](/images/team.png)');
+  });
+
+  it('should map a low-resolution image to its Markdown line', () => {
+    const issue = mapper.addSourceInfo(3, {
+      type: 'low-resolution-image',
+      element: { tag: 'img', selector: 'img', src: 'http://localhost:3030/images/chart.png' },
+      details: {
+        naturalWidth: 320,
+        naturalHeight: 200,
+        renderedWidth: 1280,
+        renderedHeight: 800,
+        upscale: 4,
+        maxUpscale: 1.5,
+      },
+    });
+
+    expect(issue.source?.line).toBe(32);
+    expect(issue.source?.content).toBe('![Chart](/images/chart.png)');
+  });
+
+  it('should count the blocks a slide should render', () => {
+    expect(mapper.getExpectedContent(2)).toEqual({
+      headings: 1,
+      lists: 0,
+      codeBlocks: 2,
+      images: 0,
+      tables: 0,
+      blocks: 3,
+    });
+    expect(mapper.getExpectedContent(4)).toBeNull();
+  });
+
+  it('should map a blank slide to the content of the slide', () => {
+    const issue = mapper.addSourceInfo(1, {
+      type: 'blank-slide',
+      element: { tag: 'div', selector: '.slidev-layout' },
+      details: {
+        reason: 'empty',
+        rendered: { headings: 0, lists: 0, codeBlocks: 0, images: 0, tables: 0 },
+      },
+    });
+
+    expect(issue.source?.line).toBe(1);
+    expect(issue.source?.content).toBe('# Intro');
+  });
+
+  it('should fall back to the whole fence when no step matches', () => {
+    const issue = mapper.addSourceInfo(
+      2,
+      codeIssue({ index: 1, highlightedLines: [], text: 'something else' })
+    );
+
+    expect(issue.source?.line).toBe(13);
+    expect(issue.source?.lineEnd).toBe(20);
+    expect(issue.source?.codeStep).toBeUndefined();
+  });
+
+  it('should skip diagram fences when attributing a code block', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'slidev-mapper-'));
+    try {
+      const markdown = `# Flow\n\n\`\`\`mermaid\ngraph LR\n  A --> B\n\`\`\`\n\n\`\`\`ts {1|2}\nconst a = 1;\nconst b = 2;\n\`\`\`\n`;
+      await writeFile(join(dir, 'slides.md'), markdown, 'utf-8');
+      const diagramMapper = new SlideMapper();
+      await diagramMapper.loadProject(dir);
+
+      const issue = diagramMapper.addSourceInfo(
+        1,
+        codeIssue({ index: 0, highlightedLines: [2], text: 'const a = 1;\nconst b = 2;' })
+      );
+
+      expect(issue.source?.line).toBe(8);
+      expect(issue.source?.codeStep).toEqual({ step: 2, total: 2, highlight: '2' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should read the font families declared in the headmatter', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'slidev-mapper-'));
+    try {
+      const headmatter = `---\nfonts:\n  sans: Inter, 'Noto Sans JP', sans-serif\n  mono: Fira Code\n---\n\n# Intro\n`;
+      await writeFile(join(dir, 'slides.md'), headmatter, 'utf-8');
+      const fontMapper = new SlideMapper();
+      await fontMapper.loadProject(dir);
+
+      expect(fontMapper.getDeclaredFonts()).toEqual([
+        { family: 'Inter', role: 'sans' },
+        { family: 'Noto Sans JP', role: 'sans' },
+        { family: 'Fira Code', role: 'mono' },
+      ]);
+      expect(mapper.getDeclaredFonts()).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,6 +1,22 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { SlidevLauncher } from '../../src/launchers/SlidevLauncher';
 
+/**
+ * Stand-in for the Slidev CLI: records its arguments and serves on the given port
+ */
+const fakeCli = `
+import { createServer } from 'http';
+import { writeFileSync } from 'fs';
+
+const args = process.argv.slice(2);
+writeFileSync('args.json', JSON.stringify(args));
+const port = Number(args[args.indexOf('--port') + 1]);
+createServer((_, response) => response.end('ok')).listen(port);
+`;
+
 describe('SlidevLauncher', () => {
   describe('utility methods', () => {
     it('should detect available port', async () => {
@@ -28,6 +44,49 @@ describe('SlidevLauncher', () => {
     });
   });
 
+  describe('launch', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await mkdtemp(join(tmpdir(), 'slidev-launcher-'));
+      await writeFile(join(projectDir, 'slides.md'), '# Intro\n', 'utf-8');
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('should run the project\'s Slidev CLI with the entry file and port', async () => {
+      const cliDir = join(projectDir, 'node_modules', '@slidev', 'cli');
+      await mkdir(join(cliDir, 'bin'), { recursive: true });
+      await writeFile(
+        join(cliDir, 'package.json'),
+        JSON.stringify({ name: '@slidev/cli', bin: { slidev: './bin/slidev.mjs' } }),
+        'utf-8'
+      );
+      await writeFile(join(cliDir, 'bin', 'slidev.mjs'), fakeCli, 'utf-8');
+
+      const launcher = new SlidevLauncher();
+      try {
+        const url = await launcher.launch(projectDir, { port: 3300, timeout: 10000 });
+        const port = new URL(url).port;
+
+        const args = JSON.parse(await readFile(join(projectDir, 'args.json'), 'utf-8'));
+        expect(args).toEqual(['slides.md', '--port', port]);
+        expect(launcher.isRunning()).toBe(true);
+      } finally {
+        await launcher.stop();
+      }
+    });
+
+    it('should ask to install @slidev/cli when it is not installed', async () => {
+      const launcher = new SlidevLauncher();
+
+      await expect(launcher.launch(projectDir)).rejects.toThrow(/npm install -D @slidev\/cli/);
+      expect(launcher.isRunning()).toBe(false);
+    });
+  });
+
   // 実際のSlidev起動テストは統合テストとして別ファイルで実行
   // (ネットワークアクセスと時間がかかるため)
 });
@@ -0,0 +1,107 @@
+/**
+ * Tests for static-only mode
+ * Markdown analysis without launching a browser
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SlidevChecker } from '../../src/checker/SlidevChecker';
+import { ContentAnalyzer } from '../../src/analysis/ContentAnalyzer';
+import { TextMeasurer } from '../../src/calibration/TextMeasurer';
+import { predictionsToSlideResults } from '../../src/analysis/PredictedIssueConverter';
+
+const markdown = `# Short title
+
+Intro
+
+---
+
+# This is an extremely long heading that will certainly not fit on a single line of the slide
+
+---
+
+\`\`\`ts
+${Array.from({ length: 40 }, (_, i) => `const value${i} = ${i};`).join('\n')}
+\`\`\`
+`;
+
+describe('Static-only check', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'slidev-project-'));
+    await writeFile(join(projectDir, 'slides.md'), markdown, 'utf-8');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should produce a CheckResult without a browser', async () => {
+    const checker = new SlidevChecker({ project: projectDir, staticOnly: true });
+    const result = await checker.check();
+
+    expect(result.staticOnly).toBe(true);
+    expect(result.totalSlides).toBe(3);
+    expect(result.slidesWithIssues).toEqual([2, 3]);
+    expect(result.contentAnalysis).toBeDefined();
+    expect(result.slides.flatMap(s => s.issues).every(issue => issue.predicted)).toBe(true);
+  });
+
+  it('should respect the page range', async () => {
+    const checker = new SlidevChecker({ project: projectDir, staticOnly: true, pages: '3' });
+    const result = await checker.check();
+
+    expect(result.slidesWithIssues).toEqual([3]);
+  });
+
+  it('should only measure with project fonts unless system fonts are enabled', async () => {
+    const create = vi.spyOn(TextMeasurer, 'create');
+    try {
+      await new SlidevChecker({ project: projectDir, staticOnly: true }).check();
+      expect(create).toHaveBeenLastCalledWith(expect.any(Array), false);
+
+      await new SlidevChecker({
+        project: projectDir,
+        staticOnly: true,
+        contentAnalysis: { systemFonts: true },
+      }).check();
+      expect(create).toHaveBeenLastCalledWith(expect.any(Array), true);
+    } finally {
+      create.mockRestore();
+    }
+  });
+
+  it('should require a project', async () => {
+    const checker = new SlidevChecker({ staticOnly: true });
+    await expect(checker.check()).rejects.toThrow('Project is required');
+  });
+
+  describe('predictionsToSlideResults', () => {
+    it('should map predictions to issues with source info', () => {
+      const analysis = new ContentAnalyzer().analyzeMarkdown(markdown);
+      const slides = predictionsToSlideResults(analysis, 'slides.md', markdown, [1, 2, 3]);
+
+      const heading = slides.find(s => s.page === 2)!.issues[0];
+      expect(heading.type).toBe('text-overflow');
+      expect(heading.element.tag).toBe('h1');
+      expect(heading.element.text).toContain('extremely long heading');
+      expect(heading.source).toEqual({
+        file: 'slides.md',
+        line: 7,
+        lineEnd: 7,
+        content: '# This is an extremely long heading that will certainly not fit on a single line of the slide',
+      });
+      // Too long for a heading, but it wraps within the slide
+      expect(heading.prediction?.riskLevel).toBe('low');
+
+      const code = slides.find(s => s.page === 3)!.issues[0];
+      expect(code.type).toBe('element-overflow');
+      expect(code.element.tag).toBe('pre');
+      expect(code.element.text).toBeUndefined();
+    });
+  });
+});
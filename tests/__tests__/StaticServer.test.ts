@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { StaticServer } from '../../src/launchers/StaticServer';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('StaticServer', () => {
+  let distDir: string;
+  let server: StaticServer;
+  let url: string;
+
+  beforeAll(async () => {
+    // slidev build の出力を模したディレクトリを作成
+    distDir = await mkdtemp(join(tmpdir(), 'slidev-dist-'));
+    await mkdir(join(distDir, 'assets'));
+    await writeFile(join(distDir, 'index.html'), '<html><body>deck</body></html>', 'utf-8');
+    await writeFile(join(distDir, 'assets', 'app.js'), 'console.log("app")', 'utf-8');
+
+    server = new StaticServer();
+    url = await server.start(distDir);
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(distDir, { recursive: true, force: true });
+  });
+
+  it('should serve index.html at the root', async () => {
+    const response = await fetch(`${url}/`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain('deck');
+  });
+
+  it('should serve assets with their content type', async () => {
+    const response = await fetch(`${url}/assets/app.js`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('application/javascript');
+  });
+
+  it('should fall back to index.html for SPA routes', async () => {
+    const response = await fetch(`${url}/5`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('deck');
+  });
+
+  it('should return 404 for missing assets', async () => {
+    const response = await fetch(`${url}/assets/missing.js`);
+    expect(response.status).toBe(404);
+  });
+
+  it('should not serve files outside the root directory', async () => {
+    const response = await fetch(`${url}/..%2F..%2Fetc%2Fpasswd`);
+    expect(response.status).toBe(403);
+  });
+
+  it('should reject a directory without index.html', async () => {
+    const emptyDir = await mkdtemp(join(tmpdir(), 'slidev-empty-'));
+    try {
+      await expect(new StaticServer().start(emptyDir)).rejects.toThrow('No index.html');
+    } finally {
+      await rm(emptyDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return false when stopping a server that is not running', async () => {
+    const idle = new StaticServer();
+    expect(await idle.stop()).toBe(false);
+    expect(idle.getUrl()).toBe(null);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { chromium, Browser, Page } from 'playwright';
+import { StyleCalibrator, CalibrationTarget } from '../../src/calibration/StyleCalibrator';
+
+describe('StyleCalibrator', () => {
+  let browser: Browser;
+  let page: Page;
+
+  const target: CalibrationTarget = {
+    theme: 'custom',
+    slide: 2,
+    slideDimensions: { canvasWidth: 980, canvasHeight: 552, aspectRatio: '16/9' },
+  };
+
+  beforeAll(async () => {
+    browser = await chromium.launch({ headless: true });
+    page = await browser.newPage();
+  });
+
+  afterAll(async () => {
+    await page.close();
+    await browser.close();
+  });
+
+  it('should read font sizes, line heights and padding from the layout', async () => {
+    await page.setContent(`
+      <html>
+        <head>
+          <style>
+            .slidev-layout { box-sizing: border-box; width: 980px; height: 552px; padding: 40px 56px; }
+            .slidev-layout h1 { font-size: 50px; line-height: 60px; }
+            .slidev-layout p, .slidev-layout li { font-size: 20px; line-height: 1.5; }
+            .slidev-layout code { font-family: monospace; font-size: 14px; line-height: 21px; }
+          </style>
+        </head>
+        <body>
+          <div class="slidev-page active">
+            <div class="slidev-layout"><p>Existing content</p></div>
+          </div>
+        </body>
+      </html>
+    `);
+
+    const calibration = await new StyleCalibrator(page).calibrate(target);
+
+    expect(calibration).not.toBe(null);
+    expect(calibration!.actualFontSizes.h1).toBe(50);
+    expect(calibration!.actualLineHeights.h1).toBe(1.2);
+    expect(calibration!.actualFontSizes.paragraph).toBe(20);
+    expect(calibration!.actualLineHeights.listItem).toBe(1.5);
+    expect(calibration!.actualFontSizes.code).toBe(14);
+    expect(calibration!.fontFamilies.mono).toBe('monospace');
+    expect(calibration!.actualPadding).toEqual({ left: 56, right: 56, top: 40, bottom: 40 });
+    expect(calibration!.contentArea).toEqual({ width: 868, height: 472 });
+    expect(calibration!.themeUsed).toBe('custom');
+    expect(calibration!.slideUsedForCalibration).toBe(2);
+  });
+
+  it('should remove its probe elements', async () => {
+    await new StyleCalibrator(page).calibrate(target);
+
+    const headings = await page.locator('.slidev-layout h1').count();
+    expect(headings).toBe(0);
+  });
+
+  it('should return null without a rendered layout', async () => {
+    await page.setContent('<html><body><div>No slides</div></body></html>');
+
+    expect(await new StyleCalibrator(page).calibrate(target)).toBe(null);
+  });
+});
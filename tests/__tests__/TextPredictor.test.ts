@@ -3,8 +3,13 @@
  * TDD: Text measurement using Canvas.measureText() simulation
  */
 import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { TextPredictor, createDefaultCalibration } from '../../src/calibration/TextPredictor.js';
-import type { StyleCalibration } from '../../src/types/index.js';
+import { TextMeasurer } from '../../src/calibration/TextMeasurer.js';
+import { buildFont } from '../fixtures/buildFont.js';
+import type { ContentNode, StyleCalibration } from '../../src/types/index.js';
 
 describe('TextPredictor', () => {
   let predictor: TextPredictor;
@@ -104,6 +109,58 @@ describe('TextPredictor', () => {
       const largeFont = predictor.estimateTextWidth('Test', 48);
       expect(largeFont).toBeGreaterThan(smallFont);
     });
+
+    it('should count full-width characters as 1em', () => {
+      expect(predictor.estimateTextWidth('日本語', 48)).toBe(144);
+    });
+  });
+
+  describe('line wrapping', () => {
+    it('should wrap long text to estimate height', () => {
+      const short = predictor.measureText('Hello', 'paragraph');
+      const long = predictor.measureText('word '.repeat(100), 'paragraph');
+
+      expect(short.lineCount).toBe(1);
+      expect(long.lineCount).toBeGreaterThan(1);
+      expect(long.measuredHeight).toBeCloseTo(long.lineCount * 17.6 * 1.6);
+    });
+
+    it('should not wrap code', () => {
+      const result = predictor.measureText('const value = 1;\nconst other = 2;', 'code');
+      expect(result.lineCount).toBe(2);
+    });
+
+    it('should not flag text that wraps within the available width', () => {
+      const result = predictor.measureTextForLayout(
+        'Right column with a lot of content',
+        'h1',
+        'two-cols',
+        'right'
+      );
+
+      expect(result.lineCount).toBeGreaterThan(1);
+      expect(result.measuredWidth).toBeLessThanOrEqual(result.availableWidth);
+      expect(result.willOverflow).toBe(false);
+    });
+
+    it('should flag wrapped text taller than the available height', () => {
+      const result = predictor.measureTextForLayout(
+        'word '.repeat(400),
+        'paragraph',
+        'two-cols',
+        'right'
+      );
+
+      expect(result.measuredWidth).toBeLessThanOrEqual(result.availableWidth);
+      expect(result.willOverflow).toBe(true);
+      expect(result.overflowAmount).toBeCloseTo(result.measuredHeight - result.availableHeight);
+    });
+
+    it('should flag code wider than the available width even with spaces', () => {
+      const result = predictor.measureText('const value = ' + 'item + '.repeat(40) + '1;', 'code');
+      expect(result.willOverflow).toBe(true);
+      expect(result.overflowAmount).toBeCloseTo(result.measuredWidth - result.availableWidth);
+    });
   });
 
   describe('willTextOverflow', () => {
@@ -137,6 +194,15 @@ describe('TextPredictor', () => {
       expect(twocolsResult.availableWidth).toBeLessThan(defaultResult.availableWidth);
     });
 
+    it('should use the width of the named slot', () => {
+      const left = predictor.measureTextForLayout('Test', 'h1', 'two-cols-header');
+      const right = predictor.measureTextForLayout('Test', 'h1', 'two-cols-header', 'right');
+
+      // Default slot of two-cols-header is the full-width header
+      expect(left.availableWidth).toBe(868);
+      expect(right.availableWidth).toBe(426);
+    });
+
     it('should use full width for full layout', () => {
       const result = predictor.measureTextForLayout('Test', 'h1', 'full');
       expect(result.availableWidth).toBe(980);
@@ -149,6 +215,78 @@ describe('TextPredictor', () => {
       // Without actual font loading, confidence should be medium
       expect(result.confidence).toBe('medium');
     });
+
+    it('should return high confidence when font metrics are used', async () => {
+      // Default calibration uses "Roboto, sans-serif"
+      const fontDir = await mkdtemp(join(tmpdir(), 'slidev-fonts-'));
+      try {
+        const font = buildFont('Roboto', { T: 600, e: 550, s: 500, t: 350 });
+        await writeFile(join(fontDir, 'Roboto.ttf'), font);
+        const measurer = await TextMeasurer.create([fontDir], false);
+
+        const result = new TextPredictor(calibration, {}, measurer).measureText('Test', 'h1');
+        expect(result.confidence).toBe('high');
+        expect(result.measuredWidth).toBeCloseTo((600 + 550 + 500 + 350) * 0.048);
+      } finally {
+        await rm(fontDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('predictBlockHeight', () => {
+    const node = (type: string, fields: Partial<ContentNode> = {}): ContentNode => ({
+      type,
+      lineStart: 1,
+      lineEnd: 1,
+      slideIndex: 0,
+      content: '',
+      metadata: {},
+      ...fields,
+    });
+
+    it('should use heading font size and line height', () => {
+      const height = predictor.predictBlockHeight(node('heading', { level: 1, text: 'Title' }), 868);
+      expect(height).toBeCloseTo(48 * 1.2);
+    });
+
+    it('should wrap paragraphs to the slot width', () => {
+      const paragraph = node('paragraph', { text: 'word '.repeat(60).trim() });
+      const wide = predictor.predictBlockHeight(paragraph, 868);
+      const narrow = predictor.predictBlockHeight(paragraph, 426);
+      expect(narrow).toBeGreaterThan(wide);
+    });
+
+    it('should add a line per code line plus padding', () => {
+      const height = predictor.predictBlockHeight(node('code-block', { metadata: { lineCount: 10 } }), 868);
+      expect(height).toBeCloseTo(10 * 14 * 1.5 + 24);
+    });
+
+    it('should count list items and table rows', () => {
+      const list = predictor.predictBlockHeight(node('list', { content: '- One\n- Two\n  - Three' }), 868);
+      expect(list).toBeCloseTo(3 * 17.6 * 1.6);
+
+      const table = predictor.predictBlockHeight(node('table', { metadata: { rows: 4 } }), 868);
+      expect(table).toBeCloseTo(5 * (17.6 * 1.6 + 12));
+    });
+
+    it('should ignore nodes that do not render a block', () => {
+      expect(predictor.predictBlockHeight(node('slot-separator'), 868)).toBe(0);
+    });
+
+    it('should stack blocks with spacing', () => {
+      const blocks = predictor.stackBlocks(
+        [
+          node('heading', { level: 1, text: 'Title' }),
+          node('slot-separator'),
+          node('code-block', { metadata: { lineCount: 10 } }),
+        ],
+        868
+      );
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[1].top).toBeCloseTo(48 * 1.2 + 16);
+      expect(blocks[1].bottom).toBeCloseTo(48 * 1.2 + 16 + 10 * 14 * 1.5 + 24);
+    });
   });
 
   describe('predictHeadingOverflow', () => {
@@ -19,9 +19,15 @@ describe('E2E Test', () => {
     const testHtmlPath = join(__dirname, '..', 'fixtures', 'test-slides.html');
     const testHtml = fs.readFileSync(testHtmlPath, 'utf-8');
 
+    // The same deck with an error logged while it loads
+    const loadErrorHtml = testHtml.replace(
+      '</head>',
+      "<script>console.error('Deck failed to boot');</script></head>"
+    );
+
     server = http.createServer((req, res) => {
       res.writeHead(200, { 'Content-Type': 'text/html' });
-      res.end(testHtml);
+      res.end(req.url?.startsWith('/load-error') ? loadErrorHtml : testHtml);
     });
 
     await new Promise<void>((resolve) => {
@@ -89,4 +95,19 @@ describe('E2E Test', () => {
     // スライド3はチェックされているはず（スライド3に問題がある）
     expect(result.slidesWithIssues.includes(3)).toBe(true);
   }, 30000);
+
+  it('should report errors of the initial load apart from the slides', async () => {
+    const checker = new SlidevChecker({
+      url: `${serverUrl}/load-error`,
+      pages: '1',
+      headless: true,
+      verbose: false,
+    });
+
+    const result = await checker.check();
+
+    expect(result.loadErrors?.map(error => error.message)).toEqual(['Deck failed to boot']);
+    expect(result.slides.find(s => s.page === 1)?.runtimeErrors).toBeUndefined();
+    expect(result.summary.runtimeErrors.count).toBe(0);
+  }, 30000);
 });
@@ -0,0 +1,82 @@
+/**
+ * Builds a minimal TrueType font (cmap, head, hhea, hmtx, name) for tests
+ *
+ * @param advances Advance width per character in units of 1/1000 em
+ */
+export function buildFont(family: string, advances: Record<string, number>): Buffer {
+  const chars = Object.keys(advances);
+
+  // Glyph 0 is .notdef
+  const hmtx = Buffer.alloc((chars.length + 1) * 4);
+  chars.forEach((char, i) => hmtx.writeUInt16BE(advances[char], (i + 1) * 4));
+
+  // cmap with a single format 12 subtable (Windows, Unicode full repertoire)
+  const subtable = Buffer.alloc(16 + chars.length * 12);
+  subtable.writeUInt16BE(12, 0);
+  subtable.writeUInt32BE(subtable.length, 4);
+  subtable.writeUInt32BE(chars.length, 12);
+  chars.forEach((char, i) => {
+    const codePoint = char.codePointAt(0)!;
+    subtable.writeUInt32BE(codePoint, 16 + i * 12);
+    subtable.writeUInt32BE(codePoint, 20 + i * 12);
+    subtable.writeUInt32BE(i + 1, 24 + i * 12);
+  });
+  const cmapHeader = Buffer.alloc(12);
+  cmapHeader.writeUInt16BE(1, 2);
+  cmapHeader.writeUInt16BE(3, 4);
+  cmapHeader.writeUInt16BE(10, 6);
+  cmapHeader.writeUInt32BE(12, 8);
+  const cmap = Buffer.concat([cmapHeader, subtable]);
+
+  const head = Buffer.alloc(54);
+  head.writeUInt16BE(1000, 18);
+
+  const hhea = Buffer.alloc(36);
+  hhea.writeUInt16BE(chars.length + 1, 34);
+
+  // name table with family (ID 1) and subfamily (ID 2) as UTF-16BE
+  const strings = [family, 'Regular'].map(value => Buffer.from(value, 'utf16le').swap16());
+  const name = Buffer.alloc(6 + strings.length * 12);
+  name.writeUInt16BE(strings.length, 2);
+  name.writeUInt16BE(name.length, 4);
+  let stringOffset = 0;
+  strings.forEach((value, i) => {
+    const record = 6 + i * 12;
+    name.writeUInt16BE(3, record);
+    name.writeUInt16BE(1, record + 2);
+    name.writeUInt16BE(0x409, record + 4);
+    name.writeUInt16BE(i + 1, record + 6);
+    name.writeUInt16BE(value.length, record + 8);
+    name.writeUInt16BE(stringOffset, record + 10);
+    stringOffset += value.length;
+  });
+  const nameTable = Buffer.concat([name, ...strings]);
+
+  const tables: Array<[string, Buffer]> = [
+    ['cmap', cmap],
+    ['head', head],
+    ['hhea', hhea],
+    ['hmtx', hmtx],
+    ['name', nameTable],
+  ];
+
+  const directory = Buffer.alloc(12 + tables.length * 16);
+  directory.writeUInt32BE(0x00010000, 0);
+  directory.writeUInt16BE(tables.length, 4);
+
+  const data: Buffer[] = [];
+  let offset = directory.length;
+  tables.forEach(([tag, table], i) => {
+    const entry = 12 + i * 16;
+    directory.write(tag, entry, 'latin1');
+    directory.writeUInt32BE(offset, entry + 8);
+    directory.writeUInt32BE(table.length, entry + 12);
+
+    const padded = Buffer.alloc(Math.ceil(table.length / 4) * 4);
+    table.copy(padded);
+    data.push(padded);
+    offset += padded.length;
+  });
+
+  return Buffer.concat([directory, ...data]);
+}